@@ -0,0 +1,812 @@
+import type { NamedNode } from "@rdfjs/types";
+import { type Pipeline, usStatesByPostalCode } from "@sdapps/etl";
+import {
+  AdministrativeArea,
+  ContactPoint,
+  ImageObject,
+  Organization,
+  Person,
+  PostalAddress,
+  QuantitiveValue,
+  Role,
+} from "@sdapps/models";
+import { schema } from "@tpluscode/rdf-ns-builders";
+import N3 from "n3";
+import { Either } from "purify-ts";
+import yaml from "yaml";
+import { z } from "zod";
+
+const dataFactory = N3.DataFactory;
+
+const committeeSchema = z.object({
+  address: z.string().optional(),
+  house_committee_id: z.string().length(2).optional(),
+  jurisdiction: z.string().optional(),
+  jurisdiction_source: z.string().optional(),
+  minority_rss_url: z.string().url().optional(),
+  name: z.string(),
+  phone: z.string().optional(),
+  rss_url: z.string().url().optional(),
+  senate_committee_id: z.string().length(4).optional(),
+  subcommittees: z
+    .array(
+      z.object({
+        address: z.string().optional(),
+        name: z.string(),
+        phone: z.string().optional(),
+        thomas_id: z.string().length(2),
+      }),
+    )
+    .optional(),
+  thomas_id: z.string().length(4),
+  type: z.enum(["house", "joint", "senate"]),
+  url: z.string().url().optional(),
+  youtube_id: z.string().optional(),
+});
+const committeesSchema = z.array(committeeSchema);
+
+const committeeMembershipSchema = z.object({
+  bioguide: z.string(),
+  chamber: z.enum(["house", "senate"]).optional(),
+  name: z.string(),
+  party: z.enum(["majority", "minority"]),
+  rank: z.number(),
+  title: z.string().optional(),
+});
+const committeeMembershipsSchema = z.record(
+  z.string(),
+  z.array(committeeMembershipSchema),
+);
+
+const legislatorSchema = z.object({
+  bio: z.object({
+    birthday: z.string().date().optional(),
+    gender: z.enum(["F", "M"]),
+  }),
+  id: z.object({
+    bioguide: z.string(),
+    pictorial: z.number().optional(),
+    // Historical legislators may not have wikidata or wikipedia ids
+    wikidata: z.string().optional(),
+    wikipedia: z.string().optional(),
+    // Many other id's
+  }),
+  leadership_roles: z
+    .array(
+      z.object({
+        chamber: z.enum(["house", "senate"]),
+        // Missing for some roles that are still held
+        end: z.string().date().optional(),
+        start: z.string().date(),
+        title: z.string(),
+      }),
+    )
+    .optional(),
+  name: z.object({
+    first: z.string(),
+    last: z.string(),
+    middle: z.string().optional(),
+    nickname: z.string().optional(),
+    official_full: z.string().optional(),
+    suffix: z.string().optional(),
+  }),
+  terms: z.array(
+    z.object({
+      address: z.string().optional(),
+      caucus: z.string().optional(),
+      class: z.number().optional(),
+      contact_form: z.string().url().optional(),
+      district: z.number().optional(),
+      end: z.string().date(),
+      fax: z.string().nullable().optional(),
+      // Ignore how
+      office: z.string().optional(),
+      // Some terms in the early Congresses have no party
+      party: z.string().optional(),
+      // Parties during the term, if the legislator switched parties
+      party_affiliations: z
+        .array(
+          z.object({
+            end: z.string().date(),
+            party: z.string(),
+            start: z.string().date(),
+          }),
+        )
+        .optional(),
+      phone: z.string().optional(),
+      // Ignore rss_url
+      start: z.string().date(),
+      state: z.string().length(2),
+      state_rank: z.enum(["junior", "senior"]).optional(),
+      type: z.enum(["rep", "sen"]),
+      url: z.string().url().optional(),
+    }),
+  ),
+});
+const legislatorsSchema = z.array(legislatorSchema);
+
+const legislatorSocialMediaSchema = z.object({
+  id: z.object({
+    bioguide: z.string(),
+  }),
+  social: z.object({
+    facebook: z.string().optional(),
+    instagram: z.string().optional(),
+    twitter: z.string().optional(),
+    twitter_id: z.number().optional(),
+    youtube: z.string().optional(),
+    youtube_id: z.string().optional(),
+  }),
+});
+type legislatorSocialMedia = z.infer<typeof legislatorSocialMediaSchema>;
+const legislatorsSocialMediaSchema = z.array(legislatorSocialMediaSchema);
+
+// Wikidata entities of parties, by name in the legislator YAML. Parties that aren't listed have no sameAs.
+const partySameAsByName: Record<string, NamedNode> = {
+  Democrat: dataFactory.namedNode("https://www.wikidata.org/wiki/Q29552"),
+  Republican: dataFactory.namedNode("https://www.wikidata.org/wiki/Q29468"),
+};
+
+/**
+ * The Congress in session on a date, e.g., the 118th Congress for 2023-01-03. Congresses start in odd years.
+ */
+function congressNumber(date: string): number {
+  return Math.floor((Number.parseInt(date.substring(0, 4)) - 1789) / 2) + 1;
+}
+
+/**
+ * Parse an office address such as "2468 Rayburn House Office Building Washington DC 20515-3208". An address that doesn't parse is kept whole as the streetAddress.
+ */
+function postalAddress(address: string): PostalAddress {
+  const match = address.match(
+    /^(.+?),?\s+Washington,?\s+DC,?\s+(\d{5}(?:-\d{4})?)$/,
+  );
+  if (!match) {
+    return new PostalAddress({ addressCountry: "US", streetAddress: address });
+  }
+  return new PostalAddress({
+    addressCountry: "US",
+    addressLocality: "Washington",
+    addressRegion: "DC",
+    postalCode: match[2],
+    streetAddress: match[1],
+  });
+}
+
+/**
+ * Transforms the congress-legislators YAML files (https://github.com/unitedstates/congress-legislators) into People, Organizations for the chambers, committees, and parties, AdministrativeAreas for the states and congressional districts, and ImageObjects.
+ */
+export class CongressPipeline implements Pipeline {
+  private readonly historical: boolean;
+  readonly iriPrefix = "urn:congress:";
+  readonly name = "congress-etl-cli";
+  readonly version: string;
+
+  /**
+   * @param historical if true, also extract legislators who are no longer in Congress from legislators-historical.yaml
+   */
+  constructor({
+    historical,
+    version,
+  }: {
+    historical: boolean;
+    version: string;
+  }) {
+    this.historical = historical;
+    this.version = version;
+  }
+
+  async transform({
+    extract,
+  }: {
+    extract: Pipeline.Extract;
+  }): Promise<Either<Error, readonly Pipeline.Output[]>> {
+    const committeesEither = await extract({
+      fileName: "committees-current.yaml",
+      parse: yaml.parse,
+      schema: committeesSchema,
+    });
+    if (committeesEither.isLeft()) {
+      return committeesEither;
+    }
+    const { records: committees, sourceFile: committeesSourceFile } =
+      committeesEither.unsafeCoerce();
+
+    const committeeMembershipsEither = await extract({
+      fileName: "committee-membership-current.yaml",
+      parse: yaml.parse,
+      schema: committeeMembershipsSchema,
+    });
+    if (committeeMembershipsEither.isLeft()) {
+      return committeeMembershipsEither;
+    }
+    const {
+      records: committeeMemberships,
+      sourceFile: committeeMembershipsSourceFile,
+    } = committeeMembershipsEither.unsafeCoerce();
+    // Bioguide ID -> committee id -> committee membership
+    const committeeMembershipsByIds: Record<
+      string,
+      Record<string, z.infer<typeof committeeMembershipSchema>>
+    > = {};
+    for (const [committeeId, committeeCommitteeMemberships] of Object.entries(
+      committeeMemberships,
+    )) {
+      for (const committeeMembership of committeeCommitteeMemberships) {
+        if (!committeeMembershipsByIds[committeeMembership.bioguide]) {
+          committeeMembershipsByIds[committeeMembership.bioguide] = {};
+        }
+        committeeMembershipsByIds[committeeMembership.bioguide][committeeId] =
+          committeeMembership;
+      }
+    }
+
+    const currentLegislatorsEither = await extract({
+      fileName: "legislators-current.yaml",
+      parse: yaml.parse,
+      schema: legislatorsSchema,
+    });
+    if (currentLegislatorsEither.isLeft()) {
+      return currentLegislatorsEither;
+    }
+    const currentLegislators = currentLegislatorsEither.unsafeCoerce();
+    const currentLegislatorBioguideIds = new Set(
+      currentLegislators.records.map((legislator) => legislator.id.bioguide),
+    );
+    const legislators: {
+      legislator: z.infer<typeof legislatorSchema>;
+      sourceFile: Pipeline.SourceFile;
+    }[] = currentLegislators.records.map((legislator) => ({
+      legislator,
+      sourceFile: currentLegislators.sourceFile,
+    }));
+    const legislatorsSourceFiles = [currentLegislators.sourceFile];
+    if (this.historical) {
+      const historicalLegislatorsEither = await extract({
+        fileName: "legislators-historical.yaml",
+        parse: yaml.parse,
+        schema: legislatorsSchema,
+      });
+      if (historicalLegislatorsEither.isLeft()) {
+        return historicalLegislatorsEither;
+      }
+      const historicalLegislators = historicalLegislatorsEither.unsafeCoerce();
+      legislators.push(
+        ...historicalLegislators.records.map((legislator) => ({
+          legislator,
+          sourceFile: historicalLegislators.sourceFile,
+        })),
+      );
+      legislatorsSourceFiles.push(historicalLegislators.sourceFile);
+    }
+
+    const legislatorsSocialMediaEither = await extract({
+      fileName: "legislators-social-media.yaml",
+      parse: yaml.parse,
+      schema: legislatorsSocialMediaSchema,
+    });
+    if (legislatorsSocialMediaEither.isLeft()) {
+      return legislatorsSocialMediaEither;
+    }
+    const {
+      records: legislatorsSocialMedia,
+      sourceFile: legislatorsSocialMediaSourceFile,
+    } = legislatorsSocialMediaEither.unsafeCoerce();
+    const legislatorsSocialMediaByBioguideId = legislatorsSocialMedia.reduce(
+      (map, element) => {
+        map[element.id.bioguide] = element.social;
+        return map;
+      },
+      {} as Record<string, legislatorSocialMedia["social"]>,
+    );
+
+    const houseOrganization = new Organization({
+      identifier: "urn:congress:chamber:house",
+      name: "United States House of Representatives",
+      sameAs: [dataFactory.namedNode("http://www.wikidata.org/entity/Q11701")],
+      url: "https://www.house.gov/",
+    });
+
+    const senateOrganization = new Organization({
+      identifier: "urn:congress:chamber:senate",
+      name: "United States Senate",
+      sameAs: [dataFactory.namedNode("http://www.wikidata.org/entity/Q66096")],
+      url: "https://www.senate.gov/",
+    });
+
+    const committeeOrganizationsById: Record<string, Organization> = {};
+    for (const committee of committees) {
+      const committeeSameAs: NamedNode[] = [];
+      if (committee.url) {
+        committeeSameAs.push(dataFactory.namedNode(committee.url));
+      }
+      if (committee.youtube_id) {
+        committeeSameAs.push(
+          dataFactory.namedNode(
+            `https://youtube.com/channel/${committee.youtube_id}`,
+          ),
+        );
+      }
+      const committeeContactPoints: ContactPoint[] = [];
+      if (committee.phone) {
+        committeeContactPoints.push(
+          new ContactPoint({
+            contactType: "office",
+            telephone: committee.phone,
+          }),
+        );
+      }
+      if (committee.rss_url) {
+        committeeContactPoints.push(
+          new ContactPoint({ contactType: "RSS", url: committee.rss_url }),
+        );
+      }
+      if (committee.minority_rss_url) {
+        committeeContactPoints.push(
+          new ContactPoint({
+            contactType: "minority RSS",
+            url: committee.minority_rss_url,
+          }),
+        );
+      }
+      const committeeOrganization = new Organization({
+        addresses: committee.address
+          ? [postalAddress(committee.address)]
+          : undefined,
+        contactPoints: committeeContactPoints,
+        description: committee.jurisdiction,
+        identifier: `urn:congress:committee:${committee.thomas_id}`,
+        identifiers: [committee.thomas_id],
+        name: committee.name,
+        sameAs: committeeSameAs,
+      });
+      committeeOrganizationsById[committee.thomas_id] = committeeOrganization;
+
+      for (const subcommittee of committee.subcommittees ?? []) {
+        const subcommitteeOrganization = new Organization({
+          addresses: subcommittee.address
+            ? [postalAddress(subcommittee.address)]
+            : undefined,
+          contactPoints: subcommittee.phone
+            ? [
+                new ContactPoint({
+                  contactType: "office",
+                  telephone: subcommittee.phone,
+                }),
+              ]
+            : undefined,
+          identifier: `urn:congress:committee:${committee.thomas_id}:subcommittee:${subcommittee.thomas_id}`,
+          name: `${committee.name}: Subcommittees: ${subcommittee.name}`,
+          parentOrganizations: [committeeOrganization.identifier],
+        });
+        committeeOrganization.subOrganizations.push(
+          subcommitteeOrganization.identifier,
+        );
+        committeeOrganizationsById[
+          `${committee.thomas_id}${subcommittee.thomas_id}`
+        ] = subcommitteeOrganization;
+      }
+
+      switch (committee.type) {
+        case "house":
+          committeeOrganization.parentOrganizations.push(
+            houseOrganization.identifier,
+          );
+          houseOrganization.subOrganizations.push(
+            committeeOrganization.identifier,
+          );
+          break;
+        case "joint":
+          committeeOrganization.parentOrganizations.push(
+            houseOrganization.identifier,
+          );
+          committeeOrganization.parentOrganizations.push(
+            senateOrganization.identifier,
+          );
+          houseOrganization.subOrganizations.push(
+            committeeOrganization.identifier,
+          );
+          senateOrganization.subOrganizations.push(
+            committeeOrganization.identifier,
+          );
+          break;
+        case "senate":
+          committeeOrganization.parentOrganizations.push(
+            senateOrganization.identifier,
+          );
+          senateOrganization.subOrganizations.push(
+            committeeOrganization.identifier,
+          );
+          break;
+      }
+    }
+
+    const partyOrganizationsByName: Record<string, Organization> = {};
+    const partyOrganization = (name: string): Organization => {
+      let organization = partyOrganizationsByName[name];
+      if (!organization) {
+        const partySameAs = partySameAsByName[name];
+        partyOrganizationsByName[name] = organization = new Organization({
+          identifier: `urn:congress:party:${encodeURIComponent(name)}`,
+          name,
+          sameAs: partySameAs ? [partySameAs] : undefined,
+        });
+      }
+      return organization;
+    };
+
+    const stateAdministrativeAreasByPostalCode: Record<
+      string,
+      AdministrativeArea
+    > = {};
+    const stateAdministrativeArea = (
+      postalCode: string,
+    ): AdministrativeArea => {
+      let administrativeArea = stateAdministrativeAreasByPostalCode[postalCode];
+      if (!administrativeArea) {
+        const state = usStatesByPostalCode[postalCode];
+        stateAdministrativeAreasByPostalCode[postalCode] = administrativeArea =
+          new AdministrativeArea({
+            fipsCode: state?.fipsCode,
+            identifier: `urn:congress:state:${postalCode}`,
+            name: state?.name,
+            sameAs: state
+              ? [
+                  dataFactory.namedNode(
+                    `http://www.wikidata.org/entity/${state.wikidata}`,
+                  ),
+                ]
+              : undefined,
+            state: postalCode,
+          });
+      }
+      return administrativeArea;
+    };
+
+    // Districts are redrawn, so a district is specific to a Congress
+    const districtAdministrativeAreasByIdentifier: Record<
+      string,
+      AdministrativeArea
+    > = {};
+    const districtAdministrativeArea = ({
+      congress,
+      district,
+      postalCode,
+    }: {
+      congress: number;
+      district: number;
+      postalCode: string;
+    }): AdministrativeArea => {
+      const identifier = `urn:congress:district:${postalCode}:${district}:${congress}`;
+      let administrativeArea =
+        districtAdministrativeAreasByIdentifier[identifier];
+      if (!administrativeArea) {
+        const state = stateAdministrativeArea(postalCode);
+        const stateName = state.name.orDefault(postalCode);
+        districtAdministrativeAreasByIdentifier[identifier] =
+          administrativeArea = new AdministrativeArea({
+            congress,
+            containedInPlace: state.identifier,
+            district,
+            identifier,
+            // District 0 is an at-large district
+            name: `${stateName} ${district === 0 ? "at-large" : district} congressional district (Congress ${congress})`,
+            state: postalCode,
+          });
+        state.containsPlace.push(administrativeArea.identifier);
+      }
+      return administrativeArea;
+    };
+
+    const outputs: Pipeline.Output[] = [];
+    for (const {
+      legislator,
+      sourceFile: legislatorSourceFile,
+    } of legislators) {
+      const legislatorSocialMedia: legislatorSocialMedia["social"] =
+        legislatorsSocialMediaByBioguideId[legislator.id.bioguide] ?? {};
+
+      const legislatorSameAs: NamedNode[] = [
+        dataFactory.namedNode(
+          `https://bioguide.congress.gov/search/bio/${legislator.id.bioguide}`,
+        ),
+      ];
+      if (legislator.id.wikidata) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `http://www.wikidata.org/entity/${legislator.id.wikidata}`,
+          ),
+        );
+      }
+      if (legislator.id.wikipedia) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `https://en.wikipedia.org/wiki/${legislator.id.wikipedia.replaceAll(" ", "_")}`,
+          ),
+        );
+      }
+      if (legislatorSocialMedia.facebook) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `https://facebook.com/${legislatorSocialMedia.facebook}`,
+          ),
+        );
+      }
+      if (legislatorSocialMedia.instagram) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `https://instagram.com/${legislatorSocialMedia.instagram}`,
+          ),
+        );
+      }
+      if (legislatorSocialMedia.twitter) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `https://twitter.com/${legislatorSocialMedia.twitter}`,
+          ),
+        );
+      }
+      if (legislatorSocialMedia.youtube) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `https://youtube.com/user/${legislatorSocialMedia.youtube}`,
+          ),
+        );
+      }
+      if (legislatorSocialMedia.youtube_id) {
+        legislatorSameAs.push(
+          dataFactory.namedNode(
+            `https://youtube.com/channel/${legislatorSocialMedia.youtube_id}`,
+          ),
+        );
+      }
+
+      // https://github.com/unitedstates/images
+      const legislatorImageObject = ({
+        isBasedOn,
+        size,
+      }: {
+        isBasedOn?: NamedNode;
+        size: "original" | { height: number; width: number };
+      }): ImageObject => {
+        const contentUrl = `https://unitedstates.github.io/images/congress/${size === "original" ? "original" : `${size.width}x${size.height}`}/${legislator.id.bioguide}.jpg`;
+        return new ImageObject({
+          contentUrl: contentUrl,
+          height:
+            size !== "original"
+              ? new QuantitiveValue({
+                  identifier: dataFactory.namedNode(`${contentUrl}#height`),
+                  value: size.height,
+                })
+              : undefined,
+          identifier: contentUrl,
+          isBasedOn: isBasedOn ? [isBasedOn] : undefined,
+          width:
+            size !== "original"
+              ? new QuantitiveValue({
+                  identifier: dataFactory.namedNode(`${contentUrl}#width`),
+                  value: size.width,
+                })
+              : undefined,
+        });
+      };
+      const legislatorImageObjects: ImageObject[] = [];
+      // The images repository only has photos of recent legislators
+      if (currentLegislatorBioguideIds.has(legislator.id.bioguide)) {
+        const legislatorOriginalImageObject = legislatorImageObject({
+          size: "original",
+        });
+        legislatorImageObjects.push(
+          legislatorOriginalImageObject,
+          legislatorImageObject({
+            isBasedOn: legislatorOriginalImageObject.identifier,
+            size: {
+              height: 550,
+              width: 450,
+            },
+          }),
+          legislatorImageObject({
+            isBasedOn: legislatorOriginalImageObject.identifier,
+            size: {
+              height: 225,
+              width: 275,
+            },
+          }),
+        );
+      }
+      outputs.push(
+        ...legislatorImageObjects.map((model) => ({
+          derivedFrom: [legislatorSourceFile],
+          model,
+        })),
+      );
+
+      // The office contact information of the latest term, which is only current for legislators who are still in Congress
+      const legislatorCurrentTerm = currentLegislatorBioguideIds.has(
+        legislator.id.bioguide,
+      )
+        ? legislator.terms.at(-1)
+        : undefined;
+      const legislatorAddress =
+        legislatorCurrentTerm?.address ?? legislatorCurrentTerm?.office;
+
+      const legislatorCommitteeMemberships =
+        committeeMembershipsByIds[legislator.id.bioguide] ?? {};
+
+      const legislatorPerson = new Person({
+        addresses: legislatorAddress
+          ? [postalAddress(legislatorAddress)]
+          : undefined,
+        birthDate: legislator.bio.birthday
+          ? new Date(legislator.bio.birthday)
+          : undefined,
+        contactPoints: legislatorCurrentTerm
+          ? [
+              new ContactPoint({
+                contactType: "office",
+                faxNumber: legislatorCurrentTerm.fax ?? undefined,
+                telephone: legislatorCurrentTerm.phone,
+                url: legislatorCurrentTerm.contact_form,
+              }),
+            ]
+          : undefined,
+        familyName: legislator.name.last,
+        gender: legislator.bio.gender === "F" ? schema.Female : schema.Male,
+        givenName: legislator.name.first,
+        // One Role per term, or per party affiliation during the term if the legislator switched parties
+        hasOccupation: legislator.terms
+          .flatMap((term) => {
+            // A representative's district, or the state if the district is unknown, and a senator's state
+            const constituency =
+              term.type === "rep" &&
+              typeof term.district !== "undefined" &&
+              term.district >= 0
+                ? districtAdministrativeArea({
+                    congress: congressNumber(term.start),
+                    district: term.district,
+                    postalCode: term.state,
+                  })
+                : stateAdministrativeArea(term.state);
+            return (
+              term.party_affiliations ?? [
+                { end: term.end, party: term.party, start: term.start },
+              ]
+            ).map(
+              (partyAffiliation) =>
+                new Role({
+                  caucus: term.caucus
+                    ? partyOrganization(term.caucus).identifier
+                    : undefined,
+                  chamber:
+                    term.type === "rep"
+                      ? houseOrganization.identifier
+                      : senateOrganization.identifier,
+                  constituency: constituency.identifier,
+                  // -1 is an unknown district in the early Congresses
+                  district:
+                    typeof term.district !== "undefined" && term.district >= 0
+                      ? term.district
+                      : undefined,
+                  endDate: new Date(partyAffiliation.end),
+                  name:
+                    term.type === "rep"
+                      ? "United States representative"
+                      : "United States senator",
+                  party: partyAffiliation.party
+                    ? partyOrganization(partyAffiliation.party).identifier
+                    : undefined,
+                  roleName:
+                    term.type === "rep"
+                      ? "https://www.wikidata.org/wiki/Q13218630"
+                      : "https://www.wikidata.org/wiki/Q4416090",
+                  senateClass: term.class,
+                  startDate: new Date(partyAffiliation.start),
+                  state: term.state,
+                  stateRank: term.state_rank,
+                }),
+            );
+          })
+          .concat(
+            (legislator.leadership_roles ?? []).map(
+              (leadershipRole) =>
+                new Role({
+                  chamber:
+                    leadershipRole.chamber === "house"
+                      ? houseOrganization.identifier
+                      : senateOrganization.identifier,
+                  endDate: leadershipRole.end
+                    ? new Date(leadershipRole.end)
+                    : undefined,
+                  // e.g., "Speaker", "Majority Leader", "Minority Whip"
+                  name: leadershipRole.title,
+                  startDate: new Date(leadershipRole.start),
+                }),
+            ),
+          )
+          // One Role per committee or subcommittee membership
+          .concat(
+            Object.entries(legislatorCommitteeMemberships).map(
+              ([committeeId, committeeMembership]) =>
+                new Role({
+                  committee: committeeOrganizationsById[committeeId].identifier,
+                  name: committeeMembership.title ?? "Member",
+                  rank: committeeMembership.rank,
+                  side: committeeMembership.party,
+                }),
+            ),
+          ),
+        identifier: dataFactory.namedNode(
+          `urn:congress:legislator:${legislator.id.bioguide}`,
+        ),
+        images: legislatorImageObjects,
+        name:
+          legislator.name.official_full ??
+          [
+            legislator.name.first,
+            legislator.name.middle,
+            legislator.name.last,
+            legislator.name.suffix,
+          ]
+            .filter((namePart) => namePart)
+            .join(" "),
+        sameAs: legislatorSameAs,
+        url: legislatorCurrentTerm?.url,
+      });
+
+      for (const committeeId of Object.keys(legislatorCommitteeMemberships)) {
+        const committeeOrganization = committeeOrganizationsById[committeeId];
+        committeeOrganization.members.push(legislatorPerson.identifier);
+        legislatorPerson.memberOf.push(committeeOrganization.identifier);
+      }
+
+      // Member of every party the legislator has been affiliated with
+      for (const partyName of new Set(
+        legislator.terms.flatMap((term) =>
+          (term.party_affiliations ?? [{ party: term.party }]).flatMap(
+            ({ party }) => (party ? [party] : []),
+          ),
+        ),
+      )) {
+        const party = partyOrganization(partyName);
+        legislatorPerson.memberOf.push(party.identifier);
+        party.members.push(legislatorPerson.identifier);
+      }
+
+      outputs.push({
+        derivedFrom: [
+          legislatorSourceFile,
+          ...(legislatorsSocialMediaByBioguideId[legislator.id.bioguide]
+            ? [legislatorsSocialMediaSourceFile]
+            : []),
+          ...(Object.keys(legislatorCommitteeMemberships).length > 0
+            ? [committeeMembershipsSourceFile]
+            : []),
+        ],
+        model: legislatorPerson,
+      });
+    }
+
+    outputs.push(
+      ...[houseOrganization, senateOrganization].map((model) => ({
+        derivedFrom: [committeesSourceFile],
+        model,
+      })),
+      ...Object.values(committeeOrganizationsById).map((model) => ({
+        derivedFrom:
+          model.members.length > 0
+            ? [committeesSourceFile, committeeMembershipsSourceFile]
+            : [committeesSourceFile],
+        model,
+      })),
+      ...[
+        ...Object.values(partyOrganizationsByName),
+        ...Object.values(districtAdministrativeAreasByIdentifier),
+        ...Object.values(stateAdministrativeAreasByPostalCode),
+      ].map((model) => ({
+        derivedFrom: legislatorsSourceFiles,
+        model,
+      })),
+    );
+    return Either.of(outputs);
+  }
+}
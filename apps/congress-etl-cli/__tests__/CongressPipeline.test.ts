@@ -0,0 +1,274 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { NamedNode } from "@rdfjs/types";
+import { DirectorySource, MemorySink, runPipeline } from "@sdapps/etl";
+import { RdfjsDatasetModelSet } from "@sdapps/models";
+import N3 from "n3";
+import { describe, it } from "vitest";
+import { CongressPipeline } from "../CongressPipeline.js";
+
+const dataFactory = N3.DataFactory;
+
+const fixturesDirectoryPath = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "fixtures",
+);
+
+const house = { "@id": "urn:congress:chamber:house" };
+const senate = { "@id": "urn:congress:chamber:senate" };
+const democrat = { "@id": "urn:congress:party:Democrat" };
+const representative = { "@id": "https://www.wikidata.org/wiki/Q13218630" };
+const senator = { "@id": "https://www.wikidata.org/wiki/Q4416090" };
+
+async function transformFixtures(): Promise<RdfjsDatasetModelSet> {
+  const sink = new MemorySink();
+  (
+    await runPipeline({
+      pipeline: new CongressPipeline({ historical: true, version: "0.0.0" }),
+      sink,
+      source: new DirectorySource({ directoryPath: fixturesDirectoryPath }),
+      validate: true,
+    })
+  ).unsafeCoerce();
+  return new RdfjsDatasetModelSet({ dataset: sink.dataset.unsafeCoerce() });
+}
+
+describe("CongressPipeline", () => {
+  const getAdministrativeArea = (
+    modelSet: RdfjsDatasetModelSet,
+    identifier: string,
+  ) =>
+    modelSet
+      .administrativeAreaSync(dataFactory.namedNode(identifier))
+      .unsafeCoerce()
+      .unsafeCoerce();
+
+  const getOrganization = (
+    modelSet: RdfjsDatasetModelSet,
+    identifier: string,
+  ) =>
+    modelSet
+      .organizationSync(dataFactory.namedNode(identifier))
+      .unsafeCoerce()
+      .unsafeCoerce();
+
+  const getPerson = (modelSet: RdfjsDatasetModelSet, identifier: string) =>
+    modelSet
+      .personSync(dataFactory.namedNode(identifier))
+      .unsafeCoerce()
+      .unsafeCoerce();
+
+  const values = (terms: readonly NamedNode[]) =>
+    terms.map((term) => term.value).sort();
+
+  it("should transform a legislator's terms, leadership roles, and committee memberships into Roles", async ({
+    expect,
+  }) => {
+    const modelSet = await transformFixtures();
+    expect(
+      getPerson(modelSet, "urn:congress:legislator:S000148").hasOccupation.map(
+        (occupation) => occupation.toJson(),
+      ),
+    ).toMatchObject([
+      {
+        chamber: house,
+        constituency: { "@id": "urn:congress:district:NY:16:97" },
+        district: 16,
+        endDate: "1983-01-03",
+        name: "United States representative",
+        party: democrat,
+        roleName: representative,
+        startDate: "1981-01-05",
+        state: "NY",
+      },
+      {
+        chamber: senate,
+        constituency: { "@id": "urn:congress:state:NY" },
+        endDate: "2005-01-03",
+        name: "United States senator",
+        party: democrat,
+        roleName: senator,
+        senateClass: 3,
+        startDate: "1999-01-06",
+        state: "NY",
+      },
+      {
+        chamber: senate,
+        constituency: { "@id": "urn:congress:state:NY" },
+        endDate: "2029-01-03",
+        party: democrat,
+        roleName: senator,
+        senateClass: 3,
+        startDate: "2023-01-03",
+        state: "NY",
+        stateRank: "senior",
+      },
+      {
+        chamber: senate,
+        endDate: "2021-01-20",
+        name: "Minority Leader",
+        startDate: "2017-01-03",
+      },
+      {
+        chamber: senate,
+        name: "Majority Leader",
+        startDate: "2021-01-20",
+      },
+      {
+        committee: { "@id": "urn:congress:committee:SSRA" },
+        name: "Member",
+        rank: 2,
+        side: "majority",
+      },
+    ]);
+
+    expect(
+      getPerson(modelSet, "urn:congress:legislator:O000172")
+        .hasOccupation.map((occupation) => occupation.toJson())
+        .filter((role) => "committee" in role),
+    ).toMatchObject([
+      {
+        committee: { "@id": "urn:congress:committee:HSGO" },
+        name: "Member",
+        rank: 4,
+        side: "minority",
+      },
+      {
+        committee: { "@id": "urn:congress:committee:HSGO:subcommittee:27" },
+        name: "Ranking Member",
+        rank: 2,
+        side: "minority",
+      },
+    ]);
+  });
+
+  it("should link legislators with their parties and committees", async ({
+    expect,
+  }) => {
+    const modelSet = await transformFixtures();
+    expect(
+      values(getOrganization(modelSet, "urn:congress:party:Democrat").members),
+    ).toStrictEqual([
+      "urn:congress:legislator:O000172",
+      "urn:congress:legislator:S000148",
+    ]);
+    expect(
+      values(
+        getOrganization(modelSet, "urn:congress:party:Anti-Administration")
+          .members,
+      ),
+    ).toStrictEqual(["urn:congress:legislator:B000226"]);
+    expect(
+      values(getPerson(modelSet, "urn:congress:legislator:O000172").memberOf),
+    ).toStrictEqual([
+      "urn:congress:committee:HSGO",
+      "urn:congress:committee:HSGO:subcommittee:27",
+      "urn:congress:party:Democrat",
+    ]);
+    expect(
+      values(
+        getOrganization(modelSet, "urn:congress:committee:HSGO")
+          .subOrganizations,
+      ),
+    ).toStrictEqual(["urn:congress:committee:HSGO:subcommittee:27"]);
+    expect(
+      values(
+        getOrganization(modelSet, "urn:congress:chamber:senate")
+          .subOrganizations,
+      ),
+    ).toStrictEqual(["urn:congress:committee:SSRA"]);
+  });
+
+  it("should only give current legislators office contact information", async ({
+    expect,
+  }) => {
+    const modelSet = await transformFixtures();
+    const schumer = getPerson(modelSet, "urn:congress:legislator:S000148");
+    expect(schumer.addresses.map((address) => address.toJson())).toMatchObject([
+      {
+        addressCountry: "US",
+        addressLocality: "Washington",
+        addressRegion: "DC",
+        postalCode: "20510",
+        streetAddress: "322 Hart Senate Office Building",
+      },
+    ]);
+    expect(
+      schumer.contactPoints.map((contactPoint) => contactPoint.toJson()),
+    ).toMatchObject([
+      {
+        contactType: "office",
+        telephone: "202-224-6542",
+        url: { "@id": "https://www.schumer.senate.gov/contact/email-chuck" },
+      },
+    ]);
+
+    const ocasioCortez = getPerson(modelSet, "urn:congress:legislator:O000172");
+    expect(
+      ocasioCortez.addresses.map((address) => address.postalCode.extract()),
+    ).toStrictEqual(["20515-3214"]);
+    expect(
+      ocasioCortez.contactPoints.map((contactPoint) =>
+        contactPoint.telephone.extract(),
+      ),
+    ).toStrictEqual(["202-225-3965"]);
+
+    const bassett = getPerson(modelSet, "urn:congress:legislator:B000226");
+    expect(bassett.addresses).toHaveLength(0);
+    expect(bassett.contactPoints).toHaveLength(0);
+
+    const committee = getOrganization(modelSet, "urn:congress:committee:HSGO");
+    expect(
+      committee.addresses.map((address) => address.streetAddress.extract()),
+    ).toStrictEqual(["2157 Rayburn House Office Building"]);
+    expect(
+      committee.contactPoints.map((contactPoint) => contactPoint.toJson()),
+    ).toMatchObject([{ contactType: "office", telephone: "(202) 225-5074" }]);
+  });
+
+  it("should transform states and congressional districts into AdministrativeAreas", async ({
+    expect,
+  }) => {
+    const modelSet = await transformFixtures();
+    expect(
+      modelSet
+        .administrativeAreasSync()
+        .unsafeCoerce()
+        .map((administrativeArea) => administrativeArea.identifier.value)
+        .sort(),
+    ).toStrictEqual([
+      "urn:congress:district:NY:14:116",
+      "urn:congress:district:NY:14:119",
+      "urn:congress:district:NY:16:97",
+      "urn:congress:state:DE",
+      "urn:congress:state:NY",
+    ]);
+
+    const newYork = getAdministrativeArea(modelSet, "urn:congress:state:NY");
+    expect(newYork.toJson()).toMatchObject({
+      fipsCode: "36",
+      name: "New York",
+      sameAs: [{ "@id": "http://www.wikidata.org/entity/Q1384" }],
+      state: "NY",
+    });
+    expect(values(newYork.containsPlace)).toStrictEqual([
+      "urn:congress:district:NY:14:116",
+      "urn:congress:district:NY:14:119",
+      "urn:congress:district:NY:16:97",
+    ]);
+
+    expect(
+      getAdministrativeArea(
+        modelSet,
+        "urn:congress:district:NY:14:119",
+      ).toJson(),
+    ).toMatchObject({
+      congress: 119,
+      containedInPlace: { "@id": "urn:congress:state:NY" },
+      district: 14,
+      name: "New York 14 congressional district (Congress 119)",
+      state: "NY",
+    });
+  });
+});
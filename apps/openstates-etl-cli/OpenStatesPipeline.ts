@@ -0,0 +1,564 @@
+import type { NamedNode } from "@rdfjs/types";
+import { type Pipeline, usStatesByPostalCode } from "@sdapps/etl";
+import {
+  ContactPoint,
+  ImageObject,
+  Organization,
+  Person,
+  PostalAddress,
+  Role,
+} from "@sdapps/models";
+import { schema } from "@tpluscode/rdf-ns-builders";
+import { parse as parseCsv } from "csv-parse/sync";
+import N3 from "n3";
+import { Either } from "purify-ts";
+import yaml from "yaml";
+import { z } from "zod";
+
+const dataFactory = N3.DataFactory;
+
+// https://github.com/openstates/people/blob/main/schemas/person.md
+const personSchema = z.object({
+  biography: z.string().optional(),
+  // YYYY, YYYY-MM, or YYYY-MM-DD
+  birth_date: z.string().optional(),
+  email: z.string().optional(),
+  family_name: z.string().optional(),
+  gender: z.string().optional(),
+  given_name: z.string().optional(),
+  id: z.string().startsWith("ocd-person/"),
+  ids: z
+    .object({
+      facebook: z.string().optional(),
+      instagram: z.string().optional(),
+      twitter: z.string().optional(),
+      youtube: z.string().optional(),
+    })
+    .optional(),
+  image: z.string().url().optional(),
+  links: z
+    .array(z.object({ note: z.string().optional(), url: z.string().url() }))
+    .optional(),
+  name: z.string(),
+  offices: z
+    .array(
+      z.object({
+        address: z.string().optional(),
+        classification: z.enum(["capitol", "district", "primary"]),
+        fax: z.string().optional(),
+        name: z.string().optional(),
+        voice: z.string().optional(),
+      }),
+    )
+    .optional(),
+  other_identifiers: z
+    .array(z.object({ identifier: z.string(), scheme: z.string() }))
+    .optional(),
+  party: z
+    .array(
+      z.object({
+        end_date: z.string().optional(),
+        name: z.string(),
+        start_date: z.string().optional(),
+      }),
+    )
+    .optional(),
+  roles: z
+    .array(
+      z.object({
+        district: z.coerce.string().optional(),
+        end_date: z.string().optional(),
+        // e.g., ocd-jurisdiction/country:us/state:nc/government
+        jurisdiction: z.string(),
+        start_date: z.string().optional(),
+        // Legislative roles are upper, lower, or legislature (unicameral). Other roles such as governor are ignored.
+        type: z.string(),
+      }),
+    )
+    .optional(),
+});
+type OpenStatesPerson = z.infer<typeof personSchema>;
+
+// Empty cells are missing values
+const csvString = z
+  .string()
+  .optional()
+  .transform((value) => value || undefined);
+
+// The people CSV export of a state, one row per current legislator
+const csvPeopleSchema = z.array(
+  z.object({
+    biography: csvString,
+    birth_date: csvString,
+    capitol_address: csvString,
+    capitol_fax: csvString,
+    capitol_voice: csvString,
+    current_chamber: csvString,
+    current_district: csvString,
+    current_party: csvString,
+    district_address: csvString,
+    district_fax: csvString,
+    district_voice: csvString,
+    email: csvString,
+    facebook: csvString,
+    family_name: csvString,
+    gender: csvString,
+    given_name: csvString,
+    id: z.string().startsWith("ocd-person/"),
+    image: csvString,
+    instagram: csvString,
+    // Semicolon-separated
+    links: csvString,
+    name: z.string(),
+    twitter: csvString,
+    wikidata: csvString,
+    youtube: csvString,
+  }),
+);
+
+const legislativeRoleTypes = ["legislature", "lower", "upper"] as const;
+type LegislativeRoleType = (typeof legislativeRoleTypes)[number];
+
+// Names of lower chambers that aren't a House of Representatives
+const lowerChamberNamesByPostalCode: Record<string, string> = {
+  CA: "State Assembly",
+  MD: "House of Delegates",
+  NJ: "General Assembly",
+  NV: "Assembly",
+  NY: "State Assembly",
+  VA: "House of Delegates",
+  WI: "State Assembly",
+  WV: "House of Delegates",
+};
+
+// Names of unicameral legislatures other than "<state> Legislature"
+const legislatureNamesByPostalCode: Record<string, string> = {
+  DC: "Council of the District of Columbia",
+};
+
+// The same sameAs as the congress ETL, so that a CompositeModelSet merges the parties
+const partySameAsByName: Record<string, NamedNode> = {
+  Democratic: dataFactory.namedNode("https://www.wikidata.org/wiki/Q29552"),
+  Republican: dataFactory.namedNode("https://www.wikidata.org/wiki/Q29468"),
+};
+
+/**
+ * A Date for a complete YYYY-MM-DD date. Partial dates such as "1960" are ignored rather than rounded to the first of the year.
+ */
+function completeDate(date: string | undefined): Date | undefined {
+  return date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(date) : undefined;
+}
+
+/**
+ * Convert a row of a state's people CSV export to the shape of a person YAML file.
+ */
+function csvPersonToPerson(
+  row: z.infer<typeof csvPeopleSchema>[number],
+  postalCode: string,
+): OpenStatesPerson {
+  return {
+    biography: row.biography,
+    birth_date: row.birth_date,
+    email: row.email,
+    family_name: row.family_name,
+    gender: row.gender,
+    given_name: row.given_name,
+    id: row.id,
+    ids: {
+      facebook: row.facebook,
+      instagram: row.instagram,
+      twitter: row.twitter,
+      youtube: row.youtube,
+    },
+    image: row.image,
+    links: row.links?.split(";").map((url) => ({ url: url.trim() })),
+    name: row.name,
+    offices: [
+      {
+        address: row.capitol_address,
+        classification: "capitol" as const,
+        fax: row.capitol_fax,
+        voice: row.capitol_voice,
+      },
+      {
+        address: row.district_address,
+        classification: "district" as const,
+        fax: row.district_fax,
+        voice: row.district_voice,
+      },
+    ].filter((office) => office.address || office.fax || office.voice),
+    other_identifiers: row.wikidata
+      ? [{ identifier: row.wikidata, scheme: "wikidata" }]
+      : undefined,
+    party: row.current_party ? [{ name: row.current_party }] : undefined,
+    roles: row.current_chamber
+      ? [
+          {
+            district: row.current_district,
+            jurisdiction: `ocd-jurisdiction/country:us/state:${postalCode.toLowerCase()}/government`,
+            type: row.current_chamber,
+          },
+        ]
+      : undefined,
+  };
+}
+
+/**
+ * The URL of a person on openstates.org: /person/<slugified name>-<base62-encoded UUID>/
+ */
+function openStatesPersonUrl(person: OpenStatesPerson): string {
+  const base62Alphabet =
+    "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+  let uuid = BigInt(
+    `0x${person.id.substring("ocd-person/".length).replaceAll("-", "")}`,
+  );
+  let encodedUuid = "";
+  do {
+    encodedUuid = base62Alphabet[Number(uuid % 62n)] + encodedUuid;
+    uuid /= 62n;
+  } while (uuid > 0n);
+  const slug = person.name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[-\s]+/g, "-");
+  return `https://openstates.org/person/${slug}-${encodedUuid}/`;
+}
+
+/**
+ * Transforms Open States people data (https://github.com/openstates/people) into People with a Role per legislative role, and Organizations for the state legislative chambers and the parties.
+ *
+ * Reads person YAML files, e.g., nc/legislature/Jane-Doe-<UUID>.yml, and people CSV exports named by state, e.g., nc.csv. A person in both is transformed from their YAML file, which has all of their roles rather than only the current one.
+ */
+export class OpenStatesPipeline implements Pipeline {
+  private readonly fileNames: readonly string[];
+  readonly iriPrefix = "urn:openstates:";
+  readonly name = "openstates-etl-cli";
+  readonly version: string;
+
+  /**
+   * @param fileNames paths of the YAML and CSV files relative to the Source
+   */
+  constructor({
+    fileNames,
+    version,
+  }: {
+    fileNames: readonly string[];
+    version: string;
+  }) {
+    this.fileNames = fileNames;
+    this.version = version;
+  }
+
+  async transform({
+    extract,
+  }: {
+    extract: Pipeline.Extract;
+  }): Promise<Either<Error, readonly Pipeline.Output[]>> {
+    // Extract
+    const openStatesPeople: {
+      person: OpenStatesPerson;
+      sourceFile: Pipeline.SourceFile;
+    }[] = [];
+    const csvOpenStatesPeople: typeof openStatesPeople = [];
+    for (const fileName of this.fileNames) {
+      if (fileName.endsWith(".csv")) {
+        const csvPeopleEither = await extract({
+          fileName,
+          parse: (contents) =>
+            parseCsv(contents, { columns: true, skip_empty_lines: true }),
+          schema: csvPeopleSchema,
+        });
+        if (csvPeopleEither.isLeft()) {
+          return csvPeopleEither;
+        }
+        const { records, sourceFile } = csvPeopleEither.unsafeCoerce();
+        // e.g., nc.csv
+        const postalCode = fileName
+          .substring(fileName.lastIndexOf("/") + 1, fileName.length - 4)
+          .toUpperCase();
+        csvOpenStatesPeople.push(
+          ...records.map((row) => ({
+            person: csvPersonToPerson(row, postalCode),
+            sourceFile,
+          })),
+        );
+      } else {
+        const personEither = await extract({
+          fileName,
+          parse: yaml.parse,
+          schema: personSchema,
+        });
+        if (personEither.isLeft()) {
+          return personEither;
+        }
+        const { records, sourceFile } = personEither.unsafeCoerce();
+        openStatesPeople.push({ person: records, sourceFile });
+      }
+    }
+    // The first record of a person wins, so CSV rows go after the YAML files regardless of the order of the file names
+    openStatesPeople.push(...csvOpenStatesPeople);
+
+    // Transform
+    const outputs: Pipeline.Output[] = [];
+    // Organization -> source files of its members
+    const organizationSourceFiles = new Map<
+      Organization,
+      Set<Pipeline.SourceFile>
+    >();
+
+    const chamberOrganizationsByIdentifier: Record<string, Organization> = {};
+    const chamberOrganization = ({
+      postalCode,
+      type,
+    }: {
+      postalCode: string;
+      type: LegislativeRoleType;
+    }): Organization => {
+      const identifier = `urn:openstates:chamber:${postalCode}:${type}`;
+      let organization = chamberOrganizationsByIdentifier[identifier];
+      if (!organization) {
+        const stateName = usStatesByPostalCode[postalCode]?.name ?? postalCode;
+        let name: string;
+        switch (type) {
+          case "legislature":
+            name =
+              legislatureNamesByPostalCode[postalCode] ??
+              `${stateName} Legislature`;
+            break;
+          case "lower":
+            name = `${stateName} ${lowerChamberNamesByPostalCode[postalCode] ?? "House of Representatives"}`;
+            break;
+          case "upper":
+            name = `${stateName} Senate`;
+            break;
+        }
+        chamberOrganizationsByIdentifier[identifier] = organization =
+          new Organization({
+            identifier,
+            name,
+          });
+      }
+      return organization;
+    };
+
+    const partyOrganizationsByName: Record<string, Organization> = {};
+    const partyOrganization = (name: string): Organization => {
+      let organization = partyOrganizationsByName[name];
+      if (!organization) {
+        const partySameAs = partySameAsByName[name];
+        partyOrganizationsByName[name] = organization = new Organization({
+          identifier: `urn:openstates:party:${encodeURIComponent(name)}`,
+          name,
+          sameAs: partySameAs ? [partySameAs] : undefined,
+        });
+      }
+      return organization;
+    };
+
+    const personIdentifiers = new Set<string>();
+    for (const { person, sourceFile } of openStatesPeople) {
+      const identifier = `urn:openstates:person:${person.id.substring("ocd-person/".length)}`;
+      if (personIdentifiers.has(identifier)) {
+        continue;
+      }
+      personIdentifiers.add(identifier);
+
+      const personSameAs: NamedNode[] = [
+        dataFactory.namedNode(openStatesPersonUrl(person)),
+      ];
+      for (const otherIdentifier of person.other_identifiers ?? []) {
+        if (otherIdentifier.scheme === "wikidata") {
+          personSameAs.push(
+            dataFactory.namedNode(
+              `http://www.wikidata.org/entity/${otherIdentifier.identifier}`,
+            ),
+          );
+        }
+      }
+      if (person.ids?.facebook) {
+        personSameAs.push(
+          dataFactory.namedNode(`https://facebook.com/${person.ids.facebook}`),
+        );
+      }
+      if (person.ids?.instagram) {
+        personSameAs.push(
+          dataFactory.namedNode(
+            `https://instagram.com/${person.ids.instagram}`,
+          ),
+        );
+      }
+      if (person.ids?.twitter) {
+        personSameAs.push(
+          dataFactory.namedNode(`https://twitter.com/${person.ids.twitter}`),
+        );
+      }
+      if (person.ids?.youtube) {
+        personSameAs.push(
+          dataFactory.namedNode(
+            `https://youtube.com/user/${person.ids.youtube}`,
+          ),
+        );
+      }
+
+      const personImageObjects: ImageObject[] = person.image
+        ? [
+            new ImageObject({
+              contentUrl: person.image,
+              identifier: person.image,
+            }),
+          ]
+        : [];
+      outputs.push(
+        ...personImageObjects.map((model) => ({
+          derivedFrom: [sourceFile],
+          model,
+        })),
+      );
+
+      // The party whose affiliation includes a date, or the only party if the dates are unknown
+      const personParty = (date: string | undefined): string | undefined => {
+        const parties = person.party ?? [];
+        if (parties.length === 1) {
+          return parties[0].name;
+        }
+        return date
+          ? parties.find(
+              (party) =>
+                (!party.start_date || party.start_date <= date) &&
+                (!party.end_date || date <= party.end_date),
+            )?.name
+          : undefined;
+      };
+
+      const personRoles: Role[] = [];
+      const personChambers = new Set<Organization>();
+      const personParties = new Set<Organization>();
+      for (const role of person.roles ?? []) {
+        const jurisdictionMatch = role.jurisdiction.match(
+          /^ocd-jurisdiction\/country:us\/(?:district|state|territory):([a-z]{2})\//,
+        );
+        if (
+          !jurisdictionMatch ||
+          !(legislativeRoleTypes as readonly string[]).includes(role.type)
+        ) {
+          continue;
+        }
+        const postalCode = jurisdictionMatch[1].toUpperCase();
+        const chamber = chamberOrganization({
+          postalCode,
+          type: role.type as LegislativeRoleType,
+        });
+        const partyName = personParty(role.start_date);
+        const party = partyName ? partyOrganization(partyName) : undefined;
+        personChambers.add(chamber);
+        if (party) {
+          personParties.add(party);
+        }
+        personRoles.push(
+          new Role({
+            chamber: chamber.identifier,
+            // Most districts are numbers, but some are names, e.g., "Barnstable, Dukes and Nantucket"
+            district:
+              role.district && /^\d+$/.test(role.district)
+                ? Number.parseInt(role.district)
+                : undefined,
+            endDate: completeDate(role.end_date),
+            name: `member of the ${chamber.name.orDefault(chamber.identifier.value)}`,
+            party: party?.identifier,
+            startDate: completeDate(role.start_date),
+            state: postalCode,
+          }),
+        );
+      }
+
+      const personPerson = new Person({
+        addresses: (person.offices ?? []).flatMap((office) =>
+          office.address
+            ? [
+                new PostalAddress({
+                  addressCountry: "US",
+                  // Address lines are separated by semicolons
+                  streetAddress: office.address.replaceAll(";", ", "),
+                }),
+              ]
+            : [],
+        ),
+        birthDate: completeDate(person.birth_date),
+        contactPoints: (person.offices ?? [])
+          .flatMap((office) =>
+            office.fax || office.voice
+              ? [
+                  new ContactPoint({
+                    contactType: `${office.classification} office`,
+                    faxNumber: office.fax,
+                    name: office.name,
+                    telephone: office.voice,
+                  }),
+                ]
+              : [],
+          )
+          .concat(
+            person.email
+              ? [
+                  new ContactPoint({
+                    contactType: "email",
+                    email: person.email,
+                  }),
+                ]
+              : [],
+          ),
+        description: person.biography,
+        familyName: person.family_name,
+        gender:
+          person.gender === "Female"
+            ? schema.Female
+            : person.gender === "Male"
+              ? schema.Male
+              : undefined,
+        givenName: person.given_name,
+        hasOccupation: personRoles,
+        identifier,
+        identifiers: [
+          person.id,
+          ...(person.other_identifiers ?? []).map(
+            (otherIdentifier) => otherIdentifier.identifier,
+          ),
+        ],
+        images: personImageObjects,
+        name: person.name,
+        sameAs: personSameAs,
+        url: person.links?.[0]?.url,
+      });
+
+      // Member of every party the person has been affiliated with during a legislative role
+      for (const party of personParties) {
+        party.members.push(personPerson.identifier);
+        personPerson.memberOf.push(party.identifier);
+      }
+      for (const organization of [...personChambers, ...personParties]) {
+        let sourceFiles = organizationSourceFiles.get(organization);
+        if (!sourceFiles) {
+          sourceFiles = new Set();
+          organizationSourceFiles.set(organization, sourceFiles);
+        }
+        sourceFiles.add(sourceFile);
+      }
+
+      outputs.push({ derivedFrom: [sourceFile], model: personPerson });
+    }
+
+    outputs.push(
+      ...[
+        ...Object.values(chamberOrganizationsByIdentifier),
+        ...Object.values(partyOrganizationsByName),
+      ].map((model) => ({
+        derivedFrom: [...(organizationSourceFiles.get(model) ?? [])],
+        model,
+      })),
+    );
+    return Either.of(outputs);
+  }
+}
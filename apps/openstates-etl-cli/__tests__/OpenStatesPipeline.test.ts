@@ -0,0 +1,210 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { DatasetCore, NamedNode } from "@rdfjs/types";
+import { DirectorySource, MemorySink, runPipeline } from "@sdapps/etl";
+import { RdfjsDatasetModelSet } from "@sdapps/models";
+import { prov } from "@tpluscode/rdf-ns-builders";
+import N3 from "n3";
+import { describe, it } from "vitest";
+import { OpenStatesPipeline } from "../OpenStatesPipeline.js";
+
+const dataFactory = N3.DataFactory;
+
+const fixturesDirectoryPath = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "fixtures",
+);
+
+// Sorted, as by openstates-etl-cli, so nc.csv comes before nc/legislature/
+const fixtureFileNames = [
+  "nc.csv",
+  "nc/legislature/Jane-Example-3f2504e0-4f89-41d3-9a0c-0305e82c3301.yml",
+  "nc/retired/John-Sample-9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c5d.yml",
+  "ne.csv",
+];
+
+async function transformFixtures(): Promise<{
+  dataset: DatasetCore;
+  modelSet: RdfjsDatasetModelSet;
+}> {
+  const sink = new MemorySink();
+  (
+    await runPipeline({
+      pipeline: new OpenStatesPipeline({
+        fileNames: fixtureFileNames,
+        version: "0.0.0",
+      }),
+      sink,
+      source: new DirectorySource({ directoryPath: fixturesDirectoryPath }),
+      validate: true,
+    })
+  ).unsafeCoerce();
+  const dataset = sink.dataset.unsafeCoerce();
+  return { dataset, modelSet: new RdfjsDatasetModelSet({ dataset }) };
+}
+
+describe("OpenStatesPipeline", () => {
+  const janeExample =
+    "urn:openstates:person:3f2504e0-4f89-41d3-9a0c-0305e82c3301";
+  const johnSample =
+    "urn:openstates:person:9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c5d";
+  const alexPlaceholder =
+    "urn:openstates:person:5d6e7f80-91a2-4b3c-9d4e-5f60718293a4";
+
+  const getOrganization = (
+    modelSet: RdfjsDatasetModelSet,
+    identifier: string,
+  ) =>
+    modelSet
+      .organizationSync(dataFactory.namedNode(identifier))
+      .unsafeCoerce()
+      .unsafeCoerce();
+
+  const getPerson = (modelSet: RdfjsDatasetModelSet, identifier: string) =>
+    modelSet
+      .personSync(dataFactory.namedNode(identifier))
+      .unsafeCoerce()
+      .unsafeCoerce();
+
+  const values = (terms: readonly NamedNode[]) =>
+    terms.map((term) => term.value).sort();
+
+  it("should transform a person YAML file", async ({ expect }) => {
+    const { modelSet } = await transformFixtures();
+    const person = getPerson(modelSet, janeExample);
+    expect(person.toJson()).toMatchObject({
+      birthDate: "1970-05-17",
+      familyName: "Example",
+      givenName: "Jane",
+      identifiers: [
+        "ocd-person/3f2504e0-4f89-41d3-9a0c-0305e82c3301",
+        "NCL000001",
+      ],
+      name: "Jane Example",
+      url: { "@id": "https://example.com/legislators/jane-example" },
+    });
+    expect(
+      person.hasOccupation.map((occupation) => occupation.toJson()),
+    ).toMatchObject([
+      {
+        chamber: { "@id": "urn:openstates:chamber:NC:lower" },
+        district: 12,
+        endDate: "2022-12-31",
+        name: "member of the North Carolina House of Representatives",
+        party: { "@id": "urn:openstates:party:Democratic" },
+        startDate: "2019-01-01",
+        state: "NC",
+      },
+      {
+        chamber: { "@id": "urn:openstates:chamber:NC:upper" },
+        district: 7,
+        name: "member of the North Carolina Senate",
+        party: { "@id": "urn:openstates:party:Democratic" },
+        startDate: "2023-01-01",
+        state: "NC",
+      },
+    ]);
+    expect(
+      person.addresses.map((address) => address.streetAddress.extract()),
+    ).toStrictEqual([
+      "16 W. Jones Street, Rm. 1127, Raleigh, NC 27601",
+      "100 Main Street, Anytown, NC 27000",
+    ]);
+    expect(
+      person.contactPoints.map((contactPoint) => contactPoint.toJson()),
+    ).toMatchObject([
+      { contactType: "capitol office", telephone: "919-555-0100" },
+      {
+        contactType: "district office",
+        faxNumber: "919-555-0102",
+        telephone: "919-555-0101",
+      },
+      { contactType: "email", email: "jane.example@example.com" },
+    ]);
+  });
+
+  it("should prefer a person's YAML file to a CSV export", async ({
+    expect,
+  }) => {
+    const { dataset, modelSet } = await transformFixtures();
+    const person = getPerson(modelSet, janeExample);
+    expect(person.hasOccupation).toHaveLength(2);
+    const telephones = person.contactPoints.map((contactPoint) =>
+      contactPoint.telephone.extract(),
+    );
+    expect(telephones).toContain("919-555-0100");
+    expect(telephones).not.toContain("919-555-0199");
+    expect(
+      [
+        ...dataset.match(
+          dataFactory.namedNode(janeExample),
+          prov.wasDerivedFrom,
+          null,
+        ),
+      ].flatMap((quad) =>
+        [...dataset.match(quad.object, prov.hadPrimarySource, null)].map(
+          (primarySource) => path.basename(primarySource.object.value),
+        ),
+      ),
+    ).toStrictEqual(["Jane-Example-3f2504e0-4f89-41d3-9a0c-0305e82c3301.yml"]);
+  });
+
+  it("should give each role the party at its start", async ({ expect }) => {
+    const { modelSet } = await transformFixtures();
+    const person = getPerson(modelSet, johnSample);
+    expect(person.birthDate.isNothing()).toStrictEqual(true);
+    expect(
+      person.hasOccupation.map((occupation) => occupation.toJson()),
+    ).toMatchObject([
+      {
+        party: { "@id": "urn:openstates:party:Democratic" },
+        startDate: "2011-01-01",
+      },
+      {
+        party: { "@id": "urn:openstates:party:Republican" },
+        startDate: "2015-01-01",
+      },
+    ]);
+    expect(values(person.memberOf)).toStrictEqual([
+      "urn:openstates:party:Democratic",
+      "urn:openstates:party:Republican",
+    ]);
+    expect(
+      values(
+        getOrganization(modelSet, "urn:openstates:party:Democratic").members,
+      ),
+    ).toStrictEqual([janeExample, johnSample]);
+  });
+
+  it("should transform a row of a people CSV export", async ({ expect }) => {
+    const { modelSet } = await transformFixtures();
+    const person = getPerson(modelSet, alexPlaceholder);
+    expect(
+      person.hasOccupation.map((occupation) => occupation.toJson()),
+    ).toMatchObject([
+      {
+        chamber: { "@id": "urn:openstates:chamber:NE:legislature" },
+        district: 21,
+        name: "member of the Nebraska Legislature",
+        party: { "@id": "urn:openstates:party:Nonpartisan" },
+        state: "NE",
+      },
+    ]);
+    expect(
+      person.addresses.map((address) => address.streetAddress.extract()),
+    ).toStrictEqual(["Room 1000, State Capitol, Lincoln, NE 68509"]);
+    expect(
+      person.contactPoints.map((contactPoint) => contactPoint.toJson()),
+    ).toMatchObject([
+      { contactType: "capitol office", telephone: "402-555-0121" },
+      { contactType: "email", email: "alex.placeholder@example.com" },
+    ]);
+    expect(
+      getOrganization(
+        modelSet,
+        "urn:openstates:chamber:NE:legislature",
+      ).name.extract(),
+    ).toStrictEqual("Nebraska Legislature");
+  });
+});
@@ -0,0 +1,81 @@
+#!/usr/bin/env npm exec tsx --
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { DirectorySource, etlCommandArgs, runEtlCommand } from "@sdapps/etl";
+import { command, option, run, string } from "cmd-ts";
+import { OpenStatesPipeline } from "./OpenStatesPipeline.js";
+
+const thisDirectoryPath = path.resolve(
+  path.join(path.dirname(fileURLToPath(import.meta.url))),
+);
+const dataDirectoryPath = path.resolve(
+  thisDirectoryPath,
+  "..",
+  "..",
+  "data",
+  "openstates",
+);
+
+const etlVersion: string = JSON.parse(
+  fs.readFileSync(path.join(thisDirectoryPath, "package.json"), "utf-8"),
+).version;
+
+/**
+ * Paths of the people files in a source directory, relative to the directory: person YAML files in legislature/ and retired/ directories, as in the data/ directory of https://github.com/openstates/people, and people CSV exports. Committee, executive, and municipality YAML files are ignored.
+ */
+async function sourceFileNames(sourceDirectoryPath: string): Promise<string[]> {
+  // readdir's recursive option needs Node 18.17
+  const fileNames: string[] = [];
+  const walk = async (relativeDirectoryPath: string) => {
+    for (const dirent of await fs.promises.readdir(
+      path.join(sourceDirectoryPath, relativeDirectoryPath),
+      { withFileTypes: true },
+    )) {
+      const fileName = relativeDirectoryPath
+        ? `${relativeDirectoryPath}/${dirent.name}`
+        : dirent.name;
+      if (dirent.isDirectory()) {
+        await walk(fileName);
+      } else {
+        fileNames.push(fileName);
+      }
+    }
+  };
+  await walk("");
+  return fileNames
+    .filter(
+      (fileName) =>
+        fileName.endsWith(".csv") ||
+        /(^|\/)(legislature|retired)\/[^/]+\.ya?ml$/.test(fileName),
+    )
+    .sort();
+}
+
+const cmd = command({
+  description:
+    "extract, transform and load data about state legislators from Open States",
+  name: "extract-transform-load",
+  args: {
+    ...etlCommandArgs,
+    sourceDir: option({
+      description:
+        "directory with Open States person YAML files, e.g., the data/ directory of a https://github.com/openstates/people checkout, and/or people CSV exports named by state, e.g., nc.csv; see apps/openstates-etl-cli/fixtures",
+      long: "source-dir",
+      type: string,
+    }),
+  },
+  handler: async ({ sourceDir, ...etlArgs }) => {
+    await runEtlCommand({
+      ...etlArgs,
+      defaultOutputFilePath: path.join(dataDirectoryPath, "openstates"),
+      pipeline: new OpenStatesPipeline({
+        fileNames: await sourceFileNames(sourceDir),
+        version: etlVersion,
+      }),
+      source: new DirectorySource({ directoryPath: sourceDir }),
+    });
+  },
+});
+
+run(cmd, process.argv.slice(2));
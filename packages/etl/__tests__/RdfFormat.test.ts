@@ -0,0 +1,57 @@
+import N3 from "n3";
+import { describe, it } from "vitest";
+import { RdfFormat } from "../src/RdfFormat";
+
+const dataFactory = N3.DataFactory;
+
+describe("RdfFormat", () => {
+  const dataset = new N3.Store([
+    dataFactory.quad(
+      dataFactory.namedNode("http://example.com/person/1"),
+      dataFactory.namedNode("http://schema.org/name"),
+      dataFactory.literal("Person 1"),
+    ),
+    dataFactory.quad(
+      dataFactory.namedNode("http://example.com/person/1"),
+      dataFactory.namedNode("http://schema.org/birthDate"),
+      dataFactory.literal(
+        "1950-01-01",
+        dataFactory.namedNode("http://www.w3.org/2001/XMLSchema#date"),
+      ),
+    ),
+  ]);
+  const namedGraphDataset = new N3.Store(
+    [...dataset].map((quad) =>
+      dataFactory.quad(
+        quad.subject,
+        quad.predicate,
+        quad.object,
+        dataFactory.namedNode("http://example.com/graph"),
+      ),
+    ),
+  );
+
+  for (const format of RdfFormat.values) {
+    it(`should round-trip ${format}`, async ({ expect }) => {
+      const expectedDataset = RdfFormat.supportsNamedGraphs(format)
+        ? namedGraphDataset
+        : dataset;
+      const quads = (
+        await RdfFormat.parse(
+          (await RdfFormat.serialize(expectedDataset, format)).unsafeCoerce(),
+          format,
+        )
+      ).unsafeCoerce();
+      expect(quads).toHaveLength(expectedDataset.size);
+      for (const quad of quads) {
+        expect(expectedDataset.has(quad)).toStrictEqual(true);
+      }
+    });
+  }
+
+  it("should fail to parse malformed input", async ({ expect }) => {
+    expect(
+      (await RdfFormat.parse("<http://example.com/", "turtle")).isLeft(),
+    ).toStrictEqual(true);
+  });
+});
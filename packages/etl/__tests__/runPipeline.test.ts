@@ -0,0 +1,195 @@
+import { ImageObject, ModelSetChanges, Person } from "@sdapps/models";
+import { prov } from "@tpluscode/rdf-ns-builders";
+import N3 from "n3";
+import { Either, Left } from "purify-ts";
+import { describe, it } from "vitest";
+import { z } from "zod";
+import { MemorySink } from "../src/MemorySink";
+import type { Pipeline } from "../src/Pipeline";
+import type { Source } from "../src/Source";
+import { runPipeline } from "../src/runPipeline";
+
+const dataFactory = N3.DataFactory;
+
+class MemorySource implements Source {
+  constructor(private readonly files: Record<string, string>) {}
+
+  async read(fileName: string): Promise<Either<Error, Source.File>> {
+    const contents = this.files[fileName];
+    if (typeof contents === "undefined") {
+      return Left(new Error(`no such file: ${fileName}`));
+    }
+    return Either.of({
+      contents,
+      retrievedAt: new Date("2025-01-01T00:00:00Z"),
+      url: `http://example.com/${fileName}`,
+    });
+  }
+}
+
+const peopleSchema = z.array(z.object({ id: z.string(), name: z.string() }));
+
+const pipeline: Pipeline = {
+  iriPrefix: "urn:test:",
+  name: "test-etl-cli",
+  async transform({ extract }) {
+    const peopleEither = await extract({
+      fileName: "people.json",
+      parse: JSON.parse,
+      schema: peopleSchema,
+    });
+    if (peopleEither.isLeft()) {
+      return peopleEither;
+    }
+    const { records, sourceFile } = peopleEither.unsafeCoerce();
+    return Either.of(
+      records.flatMap((record) => {
+        const image = new ImageObject({
+          contentUrl: `http://example.com/image/${record.id}.jpg`,
+          identifier: `http://example.com/image/${record.id}.jpg`,
+        });
+        return [
+          { derivedFrom: [sourceFile], model: image },
+          {
+            derivedFrom: [sourceFile],
+            model: new Person({
+              identifier: `urn:test:person:${record.id}`,
+              images: [image],
+              name: record.name,
+            }),
+          },
+        ];
+      }),
+    );
+  },
+  version: "1.0.0",
+};
+
+const people = [
+  { id: "1", name: "Person 1" },
+  { id: "2", name: "Person 2" },
+];
+
+describe("runPipeline", () => {
+  it("should load the transformed models with provenance", async ({
+    expect,
+  }) => {
+    const sink = new MemorySink();
+    const changes = (
+      await runPipeline({
+        pipeline,
+        sink,
+        source: new MemorySource({ "people.json": JSON.stringify(people) }),
+      })
+    ).unsafeCoerce();
+    expect(ModelSetChanges.toJson(changes).people.added).toStrictEqual([
+      "urn:test:person:1",
+      "urn:test:person:2",
+    ]);
+
+    const dataset = sink.dataset.unsafeCoerce();
+    const person = dataFactory.namedNode("urn:test:person:1");
+    expect(dataset.match(person, prov.wasDerivedFrom).size).toStrictEqual(1);
+    expect(dataset.match(person, prov.wasGeneratedBy).size).toStrictEqual(1);
+    expect(dataset.match(null, prov.used).size).toStrictEqual(1);
+    for (const quad of dataset) {
+      expect(quad.graph.termType).toStrictEqual("DefaultGraph");
+    }
+  });
+
+  it("should find the changes since the previous run", async ({ expect }) => {
+    const sink = new MemorySink();
+    await runPipeline({
+      pipeline,
+      sink,
+      source: new MemorySource({ "people.json": JSON.stringify(people) }),
+    });
+    const changes = (
+      await runPipeline({
+        pipeline,
+        sink,
+        source: new MemorySource({
+          "people.json": JSON.stringify([
+            { id: "1", name: "Changed Person 1" },
+            { id: "3", name: "Person 3" },
+          ]),
+        }),
+      })
+    ).unsafeCoerce();
+    expect(ModelSetChanges.toJson(changes).people).toStrictEqual({
+      added: ["urn:test:person:3"],
+      changed: [{ identifier: "urn:test:person:1", propertyName: "name" }],
+      removed: ["urn:test:person:2"],
+    });
+  });
+
+  it("should identify the activity by the pipeline version and source files", async ({
+    expect,
+  }) => {
+    const person = dataFactory.namedNode("urn:test:person:1");
+    const activity = async (files: Record<string, string>) => {
+      const sink = new MemorySink();
+      (
+        await runPipeline({ pipeline, sink, source: new MemorySource(files) })
+      ).unsafeCoerce();
+      return [
+        ...sink.dataset.unsafeCoerce().match(person, prov.wasGeneratedBy),
+      ][0].object.value;
+    };
+    const files = { "people.json": JSON.stringify(people) };
+    expect(await activity(files)).toStrictEqual(await activity(files));
+    expect(await activity(files)).not.toStrictEqual(
+      await activity({ "people.json": JSON.stringify(people.slice(0, 1)) }),
+    );
+  });
+
+  it("should partition the output into named graphs", async ({ expect }) => {
+    const sink = new MemorySink();
+    (
+      await runPipeline({
+        namedGraphs: true,
+        pipeline,
+        sink,
+        source: new MemorySource({ "people.json": JSON.stringify(people) }),
+      })
+    ).unsafeCoerce();
+    const dataset = sink.dataset.unsafeCoerce();
+    const graphQuadCount = (graph: string, subject?: string) =>
+      dataset.match(
+        subject ? dataFactory.namedNode(subject) : null,
+        null,
+        null,
+        dataFactory.namedNode(graph),
+      ).size;
+
+    // A Person's ImageObjects are in the images graph rather than the people graph
+    const image = "http://example.com/image/1.jpg";
+    expect(graphQuadCount("urn:test:graph:images", image)).toBeGreaterThan(0);
+    expect(graphQuadCount("urn:test:graph:people", image)).toStrictEqual(0);
+    expect(
+      graphQuadCount("urn:test:graph:people", "urn:test:person:1"),
+    ).toBeGreaterThan(0);
+    expect(graphQuadCount("urn:test:graph:provenance")).toBeGreaterThan(0);
+    expect(
+      dataset.match(null, null, null, dataFactory.defaultGraph()).size,
+    ).toStrictEqual(0);
+  });
+
+  it("should fail on records that don't match the schema", async ({
+    expect,
+  }) => {
+    const sink = new MemorySink();
+    expect(
+      (
+        await runPipeline({
+          pipeline,
+          sink,
+          source: new MemorySource({
+            "people.json": JSON.stringify([{ id: 1 }]),
+          }),
+        })
+      ).isLeft(),
+    ).toStrictEqual(true);
+    expect(sink.dataset.isNothing()).toStrictEqual(true);
+  });
+});
@@ -0,0 +1,29 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { Either, Left } from "purify-ts";
+import type { Source } from "./Source.js";
+
+/**
+ * A Source that reads files from a local directory, e.g., fixtures or a bulk data export.
+ */
+export class DirectorySource implements Source {
+  private readonly directoryPath: string;
+
+  constructor({ directoryPath }: { directoryPath: string }) {
+    this.directoryPath = path.resolve(directoryPath);
+  }
+
+  async read(fileName: string): Promise<Either<Error, Source.File>> {
+    const filePath = path.resolve(this.directoryPath, fileName);
+    try {
+      return Either.of({
+        contents: await fs.promises.readFile(filePath, "utf-8"),
+        retrievedAt: (await fs.promises.stat(filePath)).mtime,
+        url: pathToFileURL(filePath).href,
+      });
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { DatasetCore } from "@rdfjs/types";
+import N3 from "n3";
+import { Either, Left, Maybe } from "purify-ts";
+import { RdfFormat } from "./RdfFormat.js";
+import type { Sink } from "./Sink.js";
+
+/**
+ * A Sink that writes the dataset to a file, replacing the output of the previous run.
+ */
+export class FileSink implements Sink {
+  private readonly filePath: string;
+  private readonly format: RdfFormat;
+
+  constructor({ filePath, format }: { filePath: string; format: RdfFormat }) {
+    this.filePath = filePath;
+    this.format = format;
+  }
+
+  async load({
+    dataset,
+  }: { dataset: DatasetCore }): Promise<Either<Error, void>> {
+    const outputEither = await RdfFormat.serialize(dataset, this.format);
+    if (outputEither.isLeft()) {
+      return outputEither;
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(this.filePath, outputEither.unsafeCoerce());
+      return Either.of(undefined);
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  async previousDataset(): Promise<Either<Error, Maybe<DatasetCore>>> {
+    let output: string;
+    try {
+      output = await fs.promises.readFile(this.filePath, "utf-8");
+    } catch (e) {
+      // Nothing has been loaded yet
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return Either.of(Maybe.empty());
+      }
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+    return (await RdfFormat.parse(output, this.format)).map((quads) =>
+      Maybe.of(new N3.Store(quads)),
+    );
+  }
+}
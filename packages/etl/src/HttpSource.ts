@@ -0,0 +1,68 @@
+import NodeFetchCache, { FileSystemCache } from "node-fetch-cache";
+import { Either, Left } from "purify-ts";
+import type { Source } from "./Source.js";
+
+/**
+ * A Source that fetches files relative to a base URL and caches the responses on disk.
+ */
+export class HttpSource implements Source {
+  private readonly baseUrl: string;
+  private readonly cacheDirectoryPath: string;
+  private readonly fetch: ReturnType<typeof NodeFetchCache.create>;
+  private readonly offline: boolean;
+
+  /**
+   * @param offline if true, only use responses that are already in the cache and fail on a cache miss
+   */
+  constructor({
+    baseUrl,
+    cacheDirectoryPath,
+    offline,
+  }: {
+    baseUrl: string;
+    cacheDirectoryPath: string;
+    offline?: boolean;
+  }) {
+    this.baseUrl = baseUrl;
+    this.cacheDirectoryPath = cacheDirectoryPath;
+    this.fetch = NodeFetchCache.create({
+      cache: new FileSystemCache({
+        cacheDirectory: cacheDirectoryPath,
+      }),
+    });
+    this.offline = !!offline;
+  }
+
+  async read(fileName: string): Promise<Either<Error, Source.File>> {
+    const url = new URL(fileName, this.baseUrl).href;
+    try {
+      const response = await this.fetch(
+        url,
+        this.offline
+          ? { headers: { "Cache-Control": "only-if-cached" } }
+          : undefined,
+      );
+      if (response.isCacheMiss) {
+        return Left(
+          new Error(`${url} is not cached in ${this.cacheDirectoryPath}`),
+        );
+      }
+      if (!response.ok) {
+        return Left(
+          new Error(
+            `${url} returned ${response.status} ${response.statusText}`,
+          ),
+        );
+      }
+      // A cached response keeps the Date header of the original response
+      const responseDate = response.headers.get("date");
+      return Either.of({
+        contents: await response.text(),
+        retrievedAt: responseDate ? new Date(responseDate) : new Date(),
+        url,
+      });
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { DatasetCore } from "@rdfjs/types";
+import { Either, Maybe } from "purify-ts";
+import type { Sink } from "./Sink.js";
+
+/**
+ * A Sink that keeps the dataset in memory, e.g., for tests and dry runs.
+ */
+export class MemorySink implements Sink {
+  private _dataset: Maybe<DatasetCore>;
+
+  /**
+   * @param dataset the output of a previous run, if any
+   */
+  constructor({ dataset }: { dataset?: DatasetCore } = {}) {
+    this._dataset = Maybe.fromNullable(dataset);
+  }
+
+  /**
+   * The dataset that was loaded last, if any.
+   */
+  get dataset(): Maybe<DatasetCore> {
+    return this._dataset;
+  }
+
+  async load({
+    dataset,
+  }: { dataset: DatasetCore }): Promise<Either<Error, void>> {
+    this._dataset = Maybe.of(dataset);
+    return Either.of(undefined);
+  }
+
+  async previousDataset(): Promise<Either<Error, Maybe<DatasetCore>>> {
+    return Either.of(this._dataset);
+  }
+}
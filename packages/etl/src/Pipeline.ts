@@ -0,0 +1,69 @@
+import type { NamedNode } from "@rdfjs/types";
+import type {
+  AdministrativeArea,
+  ImageObject,
+  Organization,
+  Person,
+} from "@sdapps/models";
+import type { Either } from "purify-ts";
+import type { z } from "zod";
+
+/**
+ * Transforms the records in a source's files into models, e.g., the congress-legislators YAML files into People and Organizations.
+ *
+ * runPipeline does the rest: it extracts and validates the records, serializes the transformed models with their provenance, checks them, and loads them into a Sink.
+ */
+export interface Pipeline {
+  /**
+   * Prefix of the IRIs that runPipeline mints for named graphs and provenance, e.g., "urn:congress:"
+   */
+  readonly iriPrefix: string;
+  /**
+   * Name of the software agent in the provenance, e.g., "congress-etl-cli"
+   */
+  readonly name: string;
+  readonly version: string;
+
+  transform(parameters: {
+    extract: Pipeline.Extract;
+  }): Promise<Either<Error, readonly Pipeline.Output[]>>;
+}
+
+export namespace Pipeline {
+  /**
+   * Read a file from the Source, parse it, e.g., with yaml.parse, and validate the parsed records with a zod schema.
+   */
+  export type Extract = <RecordsT>(parameters: {
+    fileName: string;
+    parse: (contents: string) => unknown;
+    schema: z.ZodType<RecordsT, z.ZodTypeDef, unknown>;
+  }) => Promise<Either<Error, Extracted<RecordsT>>>;
+
+  export interface Extracted<RecordsT> {
+    readonly records: RecordsT;
+    readonly sourceFile: SourceFile;
+  }
+
+  export type Model = AdministrativeArea | ImageObject | Organization | Person;
+
+  /**
+   * A transformed model and the source files it was derived from.
+   */
+  export interface Output {
+    readonly derivedFrom: readonly SourceFile[];
+    readonly model: Model;
+  }
+
+  /**
+   * A source file as it was extracted, for provenance.
+   */
+  export interface SourceFile {
+    /**
+     * Content-addressed, so the same content has the same identifier across runs.
+     */
+    readonly identifier: NamedNode;
+    readonly retrievedAt: Date;
+    readonly sha256: string;
+    readonly url: string;
+  }
+}
@@ -0,0 +1,138 @@
+import PrefixMap from "@rdfjs/prefix-map/PrefixMap.js";
+import Serializer from "@rdfjs/serializer-turtle";
+import type { DatasetCore, Quad } from "@rdfjs/types";
+import { prov, rdf, schema, xsd } from "@tpluscode/rdf-ns-builders";
+import jsonld from "jsonld";
+import N3 from "n3";
+import { Either, Left } from "purify-ts";
+
+const dataFactory = N3.DataFactory;
+
+const prefixes = {
+  prosopa: "http://purl.archive.org/purl/prosopa/ontology#",
+  prov: prov[""].value,
+  rdf: rdf[""].value,
+  schema: schema[""].value,
+  xsd: xsd[""].value,
+};
+
+// Compact JSON-LD with schema.org terms as the default vocabulary
+const jsonLdContext = {
+  "@vocab": prefixes.schema,
+  prosopa: prefixes.prosopa,
+  prov: prefixes.prov,
+  rdf: prefixes.rdf,
+  xsd: prefixes.xsd,
+};
+
+/**
+ * An RDF serialization that an ETL can write and read back.
+ */
+export type RdfFormat = (typeof RdfFormat.values)[number];
+
+export namespace RdfFormat {
+  export const values = [
+    "json-ld",
+    "n-quads",
+    "n-triples",
+    "trig",
+    "turtle",
+  ] as const;
+
+  export const fileExtensions: Record<RdfFormat, string> = {
+    "json-ld": ".jsonld",
+    "n-quads": ".nq",
+    "n-triples": ".nt",
+    trig: ".trig",
+    turtle: ".ttl",
+  };
+
+  export async function parse(
+    input: string,
+    format: RdfFormat,
+  ): Promise<Either<Error, Quad[]>> {
+    try {
+      if (format === "json-ld") {
+        const nQuads = await jsonld.toRDF(JSON.parse(input), {
+          format: "application/n-quads",
+        });
+        // The types don't narrow the result by format
+        if (typeof nQuads !== "string") {
+          return Left(new Error("JSON-LD processor didn't return N-Quads"));
+        }
+        return Either.of(new N3.Parser({ format: "N-Quads" }).parse(nQuads));
+      }
+      // The N3 parser's default format is a superset of N-Triples, N-Quads, TriG, and Turtle
+      return Either.of(new N3.Parser().parse(input));
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  export async function serialize(
+    dataset: DatasetCore,
+    format: RdfFormat,
+  ): Promise<Either<Error, string>> {
+    try {
+      switch (format) {
+        case "json-ld":
+          return Either.of(
+            JSON.stringify(
+              await jsonld.compact(
+                await jsonld.fromRDF(await writeQuads(dataset, "N-Quads"), {
+                  format: "application/n-quads",
+                }),
+                jsonLdContext,
+              ),
+              undefined,
+              2,
+            ),
+          );
+        case "n-quads":
+          return Either.of(await writeQuads(dataset, "N-Quads"));
+        case "n-triples":
+          return Either.of(await writeQuads(dataset, "N-Triples"));
+        case "trig":
+          return Either.of(await writeQuads(dataset, "TriG"));
+        case "turtle":
+          return Either.of(
+            new Serializer({
+              prefixes: new PrefixMap(
+                Object.entries(prefixes).map(([prefix, iri]) => [
+                  prefix,
+                  dataFactory.namedNode(iri),
+                ]),
+                {
+                  factory: dataFactory,
+                },
+              ),
+            }).transform([...dataset]),
+          );
+      }
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  /**
+   * Whether the format can represent quads in named graphs. N-Triples and Turtle only have a default graph.
+   */
+  export function supportsNamedGraphs(format: RdfFormat): boolean {
+    return format !== "n-triples" && format !== "turtle";
+  }
+}
+
+function writeQuads(
+  dataset: DatasetCore,
+  format: "N-Quads" | "N-Triples" | "TriG",
+): Promise<string> {
+  // Unlike quadsToString, end() writes the prefix declarations
+  const writer = new N3.Writer({
+    format,
+    prefixes: format === "TriG" ? prefixes : undefined,
+  });
+  writer.addQuads([...dataset]);
+  return new Promise((resolve, reject) =>
+    writer.end((error, result) => (error ? reject(error) : resolve(result))),
+  );
+}
@@ -0,0 +1,14 @@
+import type { DatasetCore } from "@rdfjs/types";
+import type { Either, Maybe } from "purify-ts";
+
+/**
+ * Where a Pipeline loads its output, e.g., an RDF file.
+ */
+export interface Sink {
+  load(parameters: { dataset: DatasetCore }): Promise<Either<Error, void>>;
+
+  /**
+   * The dataset that a previous run loaded, if any, to find what changed since.
+   */
+  previousDataset(): Promise<Either<Error, Maybe<DatasetCore>>>;
+}
@@ -0,0 +1,22 @@
+import type { Either } from "purify-ts";
+
+/**
+ * Where a Pipeline extracts its source files from, e.g., a web site or a local directory.
+ */
+export interface Source {
+  /**
+   * Read a file by name, e.g., "legislators-current.yaml".
+   */
+  read(fileName: string): Promise<Either<Error, Source.File>>;
+}
+
+export namespace Source {
+  export interface File {
+    readonly contents: string;
+    /**
+     * When the contents were retrieved from where they're published, e.g., the Date header of a response or the modification time of a local file.
+     */
+    readonly retrievedAt: Date;
+    readonly url: string;
+  }
+}
@@ -0,0 +1,96 @@
+import fs from "node:fs";
+import { ModelSetChanges } from "@sdapps/models";
+import { flag, oneOf, option, optional, string } from "cmd-ts";
+import { FileSink } from "./FileSink.js";
+import type { Pipeline } from "./Pipeline.js";
+import { RdfFormat } from "./RdfFormat.js";
+import type { Source } from "./Source.js";
+import { runPipeline } from "./runPipeline.js";
+
+/**
+ * cmd-ts arguments that control the output of an ETL command. Spread them into the command's args along with arguments that configure its Source, and pass them to runEtlCommand.
+ */
+export const etlCommandArgs = {
+  changelog: option({
+    description:
+      "write the added, changed, and removed models since the previous output to a JSON file",
+    long: "changelog",
+    type: optional(string),
+  }),
+  namedGraphs: flag({
+    description:
+      "write images, organizations, people, places, and provenance to separate named graphs; requires a json-ld, n-quads, or trig --output-format",
+    long: "named-graphs",
+  }),
+  output: option({
+    description:
+      "path to the output file (default: a file in the command's data directory with the file extension of the output format)",
+    long: "output",
+    type: optional(string),
+  }),
+  outputFormat: option({
+    defaultValue: (): RdfFormat => "turtle",
+    defaultValueIsSerializable: true,
+    description: `RDF serialization of the output: ${RdfFormat.values.join(", ")}`,
+    long: "output-format",
+    type: oneOf(RdfFormat.values),
+  }),
+  validate: flag({
+    description:
+      "validate the output against the SHACL shapes in models.shaclmate.ttl",
+    long: "validate",
+  }),
+};
+
+/**
+ * The handler of an ETL command: run the Pipeline, write the output to a file, and print a summary of the changes since the previous output.
+ *
+ * @param defaultOutputFilePath path of the output file without a file extension, used if output is not specified
+ */
+export async function runEtlCommand({
+  changelog,
+  defaultOutputFilePath,
+  namedGraphs,
+  output,
+  outputFormat,
+  pipeline,
+  source,
+  validate,
+}: {
+  changelog?: string;
+  defaultOutputFilePath: string;
+  namedGraphs: boolean;
+  output?: string;
+  outputFormat: RdfFormat;
+  pipeline: Pipeline;
+  source: Source;
+  validate: boolean;
+}): Promise<void> {
+  if (namedGraphs && !RdfFormat.supportsNamedGraphs(outputFormat)) {
+    throw new Error(
+      `--named-graphs requires an --output-format that supports named graphs, not ${outputFormat}`,
+    );
+  }
+
+  const changes = (
+    await runPipeline({
+      namedGraphs,
+      pipeline,
+      sink: new FileSink({
+        filePath:
+          output ??
+          `${defaultOutputFilePath}${RdfFormat.fileExtensions[outputFormat]}`,
+        format: outputFormat,
+      }),
+      source,
+      validate,
+    })
+  ).unsafeCoerce();
+  console.log(ModelSetChanges.summary(changes));
+  if (changelog) {
+    await fs.promises.writeFile(
+      changelog,
+      JSON.stringify(ModelSetChanges.toJson(changes), undefined, 2),
+    );
+  }
+}
@@ -0,0 +1,11 @@
+export * from "./DirectorySource.js";
+export * from "./etlCommand.js";
+export * from "./FileSink.js";
+export * from "./HttpSource.js";
+export * from "./MemorySink.js";
+export * from "./Pipeline.js";
+export * from "./RdfFormat.js";
+export * from "./runPipeline.js";
+export * from "./Sink.js";
+export * from "./Source.js";
+export * from "./usStates.js";
@@ -0,0 +1,252 @@
+import { createHash } from "node:crypto";
+import type { Literal, NamedNode } from "@rdfjs/types";
+import {
+  ModelSetChanges,
+  RdfjsDatasetModelSet,
+  ReferentialIntegrityViolation,
+  checkReferentialIntegrity,
+  diffModelSets,
+} from "@sdapps/models";
+import {
+  ShaclValidationReport,
+  validateShacl,
+} from "@sdapps/models/validateShacl";
+import { prov, rdf, schema, xsd } from "@tpluscode/rdf-ns-builders";
+import N3 from "n3";
+import { Either, Left } from "purify-ts";
+import { MutableResourceSet } from "rdfjs-resource";
+import type { Pipeline } from "./Pipeline.js";
+import type { Sink } from "./Sink.js";
+import type { Source } from "./Source.js";
+
+const dataFactory = N3.DataFactory;
+
+/**
+ * The named graph of each type of model with namedGraphs, in the order the models are serialized.
+ *
+ * A model's toRdf also serializes the models it nests, e.g., a Person's ImageObjects. A quad goes to the first partition that has it, so nested models have to be serialized before the models that nest them to stay in their own partition.
+ */
+const partitionsByModelType: Record<Pipeline.Model["type"], string> = {
+  AdministrativeArea: "places",
+  ImageObject: "images",
+  Organization: "organizations",
+  Person: "people",
+};
+
+/**
+ * Extract, transform, and load: run a Pipeline on the files in a Source and load the output into a Sink.
+ *
+ * The output is the transformed models, with PROV-O provenance: the software agent, the activity of this run, the source files it used, and the source files each model was derived from. The activity is identified by the pipeline version and the source files' hashes, so rerunning the same pipeline on the same source files produces the same provenance for each model. The output is checked for referential integrity and optionally validated against the SHACL shapes before it's loaded.
+ *
+ * @param namedGraphs if true, partition the output into named graphs by type of model (e.g., <iriPrefix>graph:people) plus <iriPrefix>graph:provenance; otherwise write everything to the default graph
+ * @param validate if true, validate the output against the SHACL shapes in models.shaclmate.ttl
+ * @returns the models that were added, changed, or removed since the Sink's previous dataset
+ */
+export async function runPipeline({
+  namedGraphs,
+  pipeline,
+  sink,
+  source,
+  validate,
+}: {
+  namedGraphs?: boolean;
+  pipeline: Pipeline;
+  sink: Sink;
+  source: Source;
+  validate?: boolean;
+}): Promise<Either<Error, ModelSetChanges>> {
+  const startedAt = new Date();
+
+  // Extract
+  const sourceFiles: Pipeline.SourceFile[] = [];
+  const extract: Pipeline.Extract = async ({ fileName, parse, schema }) => {
+    const fileEither = await source.read(fileName);
+    if (fileEither.isLeft()) {
+      return fileEither;
+    }
+    const file = fileEither.unsafeCoerce();
+    const sha256 = createHash("sha256").update(file.contents).digest("hex");
+    const sourceFile: Pipeline.SourceFile = {
+      identifier: dataFactory.namedNode(
+        `${pipeline.iriPrefix}source:sha256:${sha256}`,
+      ),
+      retrievedAt: file.retrievedAt,
+      sha256,
+      url: file.url,
+    };
+    sourceFiles.push(sourceFile);
+
+    let parsed: unknown;
+    try {
+      parsed = parse(file.contents);
+    } catch (e) {
+      return Left(
+        new Error(`${file.url}: ${e instanceof Error ? e.message : String(e)}`),
+      );
+    }
+    const parseResult = await schema.safeParseAsync(parsed);
+    if (!parseResult.success) {
+      return Left(new Error(`${file.url}: ${parseResult.error.message}`));
+    }
+    return Either.of({ records: parseResult.data, sourceFile });
+  };
+
+  // Transform
+  const outputsEither = await pipeline.transform({ extract });
+  if (outputsEither.isLeft()) {
+    return outputsEither;
+  }
+  const outputs = outputsEither.unsafeCoerce();
+
+  const graph = (partition: string) =>
+    namedGraphs
+      ? dataFactory.namedNode(`${pipeline.iriPrefix}graph:${partition}`)
+      : dataFactory.defaultGraph();
+  const dataset = new N3.Store();
+  for (const [modelType, partition] of Object.entries(partitionsByModelType)) {
+    const partitionDataset = new N3.Store();
+    const resourceSet = new MutableResourceSet({
+      dataFactory,
+      dataset: partitionDataset,
+    });
+    for (const { model } of outputs) {
+      if (model.type === modelType) {
+        model.toRdf({ resourceSet });
+      }
+    }
+    for (const quad of partitionDataset) {
+      if (
+        dataset.countQuads(quad.subject, quad.predicate, quad.object, null) ===
+        0
+      ) {
+        dataset.add(
+          dataFactory.quad(
+            quad.subject,
+            quad.predicate,
+            quad.object,
+            graph(partition),
+          ),
+        );
+      }
+    }
+  }
+
+  // Provenance
+  const provenanceGraph = graph("provenance");
+  const addQuad = (
+    subject: NamedNode,
+    predicate: NamedNode,
+    object: Literal | NamedNode,
+  ) =>
+    dataset.add(dataFactory.quad(subject, predicate, object, provenanceGraph));
+  const dateTimeLiteral = (date: Date) =>
+    dataFactory.literal(date.toISOString(), xsd.dateTime);
+
+  const agent = dataFactory.namedNode(
+    `${pipeline.iriPrefix}etl-cli:${pipeline.version}`,
+  );
+  addQuad(agent, rdf.type, prov.SoftwareAgent);
+  addQuad(agent, schema.name, dataFactory.literal(pipeline.name));
+  addQuad(agent, schema.softwareVersion, dataFactory.literal(pipeline.version));
+
+  // Identified by what it did rather than when it ran
+  const activity = dataFactory.namedNode(
+    `${pipeline.iriPrefix}etl:sha256:${createHash("sha256")
+      .update(
+        [
+          pipeline.version,
+          ...[
+            ...new Set(sourceFiles.map((sourceFile) => sourceFile.sha256)),
+          ].sort(),
+        ].join("\n"),
+      )
+      .digest("hex")}`,
+  );
+  addQuad(activity, rdf.type, prov.Activity);
+  addQuad(activity, prov.startedAtTime, dateTimeLiteral(startedAt));
+  addQuad(activity, prov.endedAtTime, dateTimeLiteral(new Date()));
+  addQuad(activity, prov.wasAssociatedWith, agent);
+
+  for (const sourceFile of sourceFiles) {
+    addQuad(sourceFile.identifier, rdf.type, prov.Entity);
+    addQuad(
+      sourceFile.identifier,
+      prov.generatedAtTime,
+      dateTimeLiteral(sourceFile.retrievedAt),
+    );
+    addQuad(
+      sourceFile.identifier,
+      prov.hadPrimarySource,
+      dataFactory.namedNode(sourceFile.url),
+    );
+    addQuad(
+      sourceFile.identifier,
+      schema.sha256,
+      dataFactory.literal(sourceFile.sha256),
+    );
+    addQuad(activity, prov.used, sourceFile.identifier);
+  }
+
+  for (const { derivedFrom, model } of outputs) {
+    addQuad(model.identifier, prov.wasGeneratedBy, activity);
+    for (const sourceFile of derivedFrom) {
+      addQuad(model.identifier, prov.wasDerivedFrom, sourceFile.identifier);
+    }
+  }
+
+  // Check
+  const modelSet = new RdfjsDatasetModelSet({ dataset });
+  const referentialIntegrityViolationsEither =
+    await checkReferentialIntegrity(modelSet);
+  if (referentialIntegrityViolationsEither.isLeft()) {
+    return referentialIntegrityViolationsEither;
+  }
+  const referentialIntegrityViolations =
+    referentialIntegrityViolationsEither.unsafeCoerce();
+  if (referentialIntegrityViolations.length > 0) {
+    return Left(
+      new Error(
+        `${referentialIntegrityViolations.length} referential integrity violation(s):\n${referentialIntegrityViolations.map(ReferentialIntegrityViolation.message).join("\n")}`,
+      ),
+    );
+  }
+
+  if (validate) {
+    const shaclValidationReportEither = await validateShacl({ dataset });
+    if (shaclValidationReportEither.isLeft()) {
+      return shaclValidationReportEither;
+    }
+    const shaclValidationReport = shaclValidationReportEither.unsafeCoerce();
+    if (!shaclValidationReport.conforms) {
+      return Left(
+        new Error(
+          `${shaclValidationReport.results.length} SHACL validation result(s):\n${ShaclValidationReport.format(shaclValidationReport)}`,
+        ),
+      );
+    }
+  }
+
+  // Load
+  // Compare with the previous dataset. Everything is added on the first run.
+  const previousDatasetEither = await sink.previousDataset();
+  if (previousDatasetEither.isLeft()) {
+    return previousDatasetEither;
+  }
+  const changesEither = await diffModelSets({
+    newModelSet: modelSet,
+    // Models that no longer deserialize, e.g., after a change to the shapes, count as added
+    oldModelSet: new RdfjsDatasetModelSet({
+      dataset: previousDatasetEither.unsafeCoerce().orDefault(new N3.Store()),
+      lenient: true,
+    }),
+  });
+  if (changesEither.isLeft()) {
+    return changesEither;
+  }
+
+  const loadEither = await sink.load({ dataset });
+  if (loadEither.isLeft()) {
+    return loadEither;
+  }
+  return changesEither;
+}
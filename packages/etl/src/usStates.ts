@@ -0,0 +1,77 @@
+/**
+ * A state, the District of Columbia, or a territory with a delegate in the House of Representatives.
+ */
+export interface UsState {
+  readonly fipsCode: string;
+  readonly name: string;
+  /**
+   * Wikidata entity ID, e.g., "Q99" for California
+   */
+  readonly wikidata: string;
+}
+
+/**
+ * UsStates by postal code, e.g., "CA". Historical codes such as DK (Dakota Territory) aren't listed.
+ */
+export const usStatesByPostalCode: Readonly<Record<string, UsState>> = {
+  AK: { fipsCode: "02", name: "Alaska", wikidata: "Q797" },
+  AL: { fipsCode: "01", name: "Alabama", wikidata: "Q173" },
+  AR: { fipsCode: "05", name: "Arkansas", wikidata: "Q1612" },
+  AS: { fipsCode: "60", name: "American Samoa", wikidata: "Q16641" },
+  AZ: { fipsCode: "04", name: "Arizona", wikidata: "Q816" },
+  CA: { fipsCode: "06", name: "California", wikidata: "Q99" },
+  CO: { fipsCode: "08", name: "Colorado", wikidata: "Q1261" },
+  CT: { fipsCode: "09", name: "Connecticut", wikidata: "Q779" },
+  DC: { fipsCode: "11", name: "District of Columbia", wikidata: "Q3551781" },
+  DE: { fipsCode: "10", name: "Delaware", wikidata: "Q1393" },
+  FL: { fipsCode: "12", name: "Florida", wikidata: "Q812" },
+  GA: { fipsCode: "13", name: "Georgia", wikidata: "Q1428" },
+  GU: { fipsCode: "66", name: "Guam", wikidata: "Q16635" },
+  HI: { fipsCode: "15", name: "Hawaii", wikidata: "Q782" },
+  IA: { fipsCode: "19", name: "Iowa", wikidata: "Q1546" },
+  ID: { fipsCode: "16", name: "Idaho", wikidata: "Q1221" },
+  IL: { fipsCode: "17", name: "Illinois", wikidata: "Q1204" },
+  IN: { fipsCode: "18", name: "Indiana", wikidata: "Q1415" },
+  KS: { fipsCode: "20", name: "Kansas", wikidata: "Q1558" },
+  KY: { fipsCode: "21", name: "Kentucky", wikidata: "Q1603" },
+  LA: { fipsCode: "22", name: "Louisiana", wikidata: "Q1588" },
+  MA: { fipsCode: "25", name: "Massachusetts", wikidata: "Q771" },
+  MD: { fipsCode: "24", name: "Maryland", wikidata: "Q1391" },
+  ME: { fipsCode: "23", name: "Maine", wikidata: "Q724" },
+  MI: { fipsCode: "26", name: "Michigan", wikidata: "Q1166" },
+  MN: { fipsCode: "27", name: "Minnesota", wikidata: "Q1527" },
+  MO: { fipsCode: "29", name: "Missouri", wikidata: "Q1581" },
+  MP: { fipsCode: "69", name: "Northern Mariana Islands", wikidata: "Q16644" },
+  MS: { fipsCode: "28", name: "Mississippi", wikidata: "Q1494" },
+  MT: { fipsCode: "30", name: "Montana", wikidata: "Q1212" },
+  NC: { fipsCode: "37", name: "North Carolina", wikidata: "Q1454" },
+  ND: { fipsCode: "38", name: "North Dakota", wikidata: "Q1207" },
+  NE: { fipsCode: "31", name: "Nebraska", wikidata: "Q1553" },
+  NH: { fipsCode: "33", name: "New Hampshire", wikidata: "Q759" },
+  NJ: { fipsCode: "34", name: "New Jersey", wikidata: "Q1408" },
+  NM: { fipsCode: "35", name: "New Mexico", wikidata: "Q1522" },
+  NV: { fipsCode: "32", name: "Nevada", wikidata: "Q1227" },
+  NY: { fipsCode: "36", name: "New York", wikidata: "Q1384" },
+  OH: { fipsCode: "39", name: "Ohio", wikidata: "Q1397" },
+  OK: { fipsCode: "40", name: "Oklahoma", wikidata: "Q1649" },
+  OR: { fipsCode: "41", name: "Oregon", wikidata: "Q824" },
+  PA: { fipsCode: "42", name: "Pennsylvania", wikidata: "Q1400" },
+  PR: { fipsCode: "72", name: "Puerto Rico", wikidata: "Q1183" },
+  RI: { fipsCode: "44", name: "Rhode Island", wikidata: "Q1387" },
+  SC: { fipsCode: "45", name: "South Carolina", wikidata: "Q1456" },
+  SD: { fipsCode: "46", name: "South Dakota", wikidata: "Q1211" },
+  TN: { fipsCode: "47", name: "Tennessee", wikidata: "Q1509" },
+  TX: { fipsCode: "48", name: "Texas", wikidata: "Q1439" },
+  UT: { fipsCode: "49", name: "Utah", wikidata: "Q829" },
+  VA: { fipsCode: "51", name: "Virginia", wikidata: "Q1370" },
+  VI: {
+    fipsCode: "78",
+    name: "United States Virgin Islands",
+    wikidata: "Q11703",
+  },
+  VT: { fipsCode: "50", name: "Vermont", wikidata: "Q16551" },
+  WA: { fipsCode: "53", name: "Washington", wikidata: "Q1223" },
+  WI: { fipsCode: "55", name: "Wisconsin", wikidata: "Q1537" },
+  WV: { fipsCode: "54", name: "West Virginia", wikidata: "Q1371" },
+  WY: { fipsCode: "56", name: "Wyoming", wikidata: "Q1214" },
+};
@@ -0,0 +1,43 @@
+import { describe, it, vi } from "vitest";
+import { CachingModelSet } from "../src/CachingModelSet";
+import { RdfjsDatasetModelSet } from "../src/RdfjsDatasetModelSet";
+import { behavesLikeModelSet } from "./behavesLikeModelSet";
+import { testData } from "./testData";
+
+describe("CachingModelSet", () => {
+  behavesLikeModelSet(
+    new CachingModelSet({ modelSet: testData.rdfjsDatasetModelSet }),
+  );
+
+  it("should memoize results per query", async ({ expect }) => {
+    const modelSet = new RdfjsDatasetModelSet({ dataset: testData.dataset });
+    const peopleSpy = vi.spyOn(modelSet, "people");
+    const personSpy = vi.spyOn(modelSet, "person");
+    const cachingModelSet = new CachingModelSet({ modelSet });
+
+    const people = (await cachingModelSet.people()).unsafeCoerce();
+    expect((await cachingModelSet.people()).unsafeCoerce()).toBe(people);
+    expect(peopleSpy).toHaveBeenCalledTimes(1);
+
+    const query = { name: "Person 1" };
+    await cachingModelSet.people(query);
+    await cachingModelSet.people({ ...query });
+    expect(peopleSpy).toHaveBeenCalledTimes(2);
+
+    await cachingModelSet.person(testData.models.people[0].identifier);
+    await cachingModelSet.person(testData.models.people[0].identifier);
+    await cachingModelSet.person(testData.models.people[1].identifier);
+    expect(personSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate results", async ({ expect }) => {
+    const modelSet = new RdfjsDatasetModelSet({ dataset: testData.dataset });
+    const organizationsSpy = vi.spyOn(modelSet, "organizations");
+    const cachingModelSet = new CachingModelSet({ modelSet });
+
+    await cachingModelSet.organizations();
+    cachingModelSet.invalidate();
+    await cachingModelSet.organizations();
+    expect(organizationsSpy).toHaveBeenCalledTimes(2);
+  });
+});
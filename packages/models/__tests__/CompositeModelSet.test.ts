@@ -0,0 +1,287 @@
+import * as N3 from "n3";
+import { describe, it } from "vitest";
+import {
+  AdministrativeArea,
+  ContactPoint,
+  Organization,
+  Person,
+  Role,
+} from "../src";
+import { CompositeModelSet } from "../src/CompositeModelSet";
+import { JsonModelSet } from "../src/JsonModelSet";
+import { behavesLikeModelSet } from "./behavesLikeModelSet";
+import { testData } from "./testData";
+
+const dataFactory = N3.DataFactory;
+
+describe("CompositeModelSet", () => {
+  behavesLikeModelSet(
+    new CompositeModelSet({ modelSets: [testData.rdfjsDatasetModelSet] }),
+  );
+
+  describe("with overlapping sources", () => {
+    const wikidataIri = dataFactory.namedNode(
+      "http://www.wikidata.org/entity/Q1",
+    );
+    const wikipediaIri = dataFactory.namedNode(
+      "https://en.wikipedia.org/wiki/Test",
+    );
+    const leftPerson = new Person({
+      familyName: "Left",
+      identifier: "http://example.com/left/person",
+      memberOf: [dataFactory.namedNode("http://example.com/left/organization")],
+      name: "Left Person",
+      sameAs: [wikidataIri],
+    });
+    const rightPerson = new Person({
+      birthDate: new Date("1950-01-01"),
+      contactPoints: [new ContactPoint({ telephone: "202-555-0100" })],
+      familyName: "Right",
+      identifier: "http://example.com/right/person",
+      memberOf: [
+        dataFactory.namedNode("http://example.com/right/organization"),
+      ],
+      name: "Right Person",
+      sameAs: [wikipediaIri, wikidataIri],
+    });
+    const otherPerson = new Person({
+      identifier: "http://example.com/right/other-person",
+      name: "Other Person",
+    });
+    const leftState = new AdministrativeArea({
+      identifier: "http://example.com/left/state",
+      name: "Left State",
+      sameAs: [wikidataIri],
+    });
+    const rightState = new AdministrativeArea({
+      fipsCode: "36",
+      identifier: "http://example.com/right/state",
+      name: "Right State",
+      sameAs: [wikidataIri],
+      state: "NY",
+    });
+    const modelSet = new CompositeModelSet({
+      modelSets: [
+        new JsonModelSet({
+          administrativeAreas: [leftState],
+          organizations: [],
+          people: [leftPerson],
+        }),
+        new JsonModelSet({
+          administrativeAreas: [rightState],
+          organizations: [
+            new Organization({ identifier: "http://example.com/right/org" }),
+          ],
+          people: [otherPerson, rightPerson],
+        }),
+      ],
+    });
+
+    it("should merge people that share a sameAs", async ({ expect }) => {
+      const people = (await modelSet.people()).unsafeCoerce();
+      expect(people.map((person) => person.identifier.value)).toStrictEqual([
+        leftPerson.identifier.value,
+        otherPerson.identifier.value,
+      ]);
+
+      const mergedPerson = people[0];
+      expect(mergedPerson.name.extract()).toStrictEqual("Left Person");
+      expect(mergedPerson.familyName.extract()).toStrictEqual("Left");
+      expect(mergedPerson.birthDate.extract()).toStrictEqual(
+        rightPerson.birthDate.extract(),
+      );
+      expect(
+        mergedPerson.contactPoints.map((contactPoint) =>
+          contactPoint.telephone.extract(),
+        ),
+      ).toStrictEqual(["202-555-0100"]);
+      expect(mergedPerson.sameAs.map((term) => term.value)).toStrictEqual([
+        wikidataIri.value,
+        rightPerson.identifier.value,
+        wikipediaIri.value,
+      ]);
+      expect(mergedPerson.memberOf.map((term) => term.value)).toStrictEqual(
+        [...leftPerson.memberOf, ...rightPerson.memberOf].map(
+          (term) => term.value,
+        ),
+      );
+    });
+
+    it("should merge administrative areas that share a sameAs", async ({
+      expect,
+    }) => {
+      const administrativeAreas = (
+        await modelSet.administrativeAreas()
+      ).unsafeCoerce();
+      expect(administrativeAreas).toHaveLength(1);
+      const mergedState = administrativeAreas[0];
+      expect(mergedState.identifier.equals(leftState.identifier)).toStrictEqual(
+        true,
+      );
+      expect(mergedState.name.extract()).toStrictEqual("Left State");
+      expect(mergedState.fipsCode.extract()).toStrictEqual("36");
+      expect(mergedState.state.extract()).toStrictEqual("NY");
+      expect(
+        (await modelSet.administrativeArea(rightState.identifier))
+          .unsafeCoerce()
+          .isJust(),
+      ).toStrictEqual(true);
+    });
+
+    it("should get a merged person by any of its IRIs", async ({ expect }) => {
+      for (const identifier of [
+        leftPerson.identifier,
+        rightPerson.identifier,
+        wikipediaIri,
+      ]) {
+        expect(
+          (await modelSet.person(identifier))
+            .unsafeCoerce()
+            .unsafeCoerce()
+            .identifier.equals(leftPerson.identifier),
+        ).toStrictEqual(true);
+      }
+    });
+
+    it("should query merged people", async ({ expect }) => {
+      expect(
+        (
+          await modelSet.people({
+            birthDate: { end: new Date("1960-01-01") },
+          })
+        )
+          .unsafeCoerce()
+          .map((person) => person.identifier.value),
+      ).toStrictEqual([leftPerson.identifier.value]);
+    });
+  });
+
+  describe("with an organization under different IRIs", () => {
+    const caucusWikidataIri = dataFactory.namedNode(
+      "http://www.wikidata.org/entity/Q3",
+    );
+    const partyWikidataIri = dataFactory.namedNode(
+      "http://www.wikidata.org/entity/Q2",
+    );
+    const leftCaucus = new Organization({
+      identifier: "http://example.com/left/caucus",
+      parentOrganizations: [
+        dataFactory.namedNode("http://example.com/left/party"),
+      ],
+      sameAs: [caucusWikidataIri],
+    });
+    const leftParty = new Organization({
+      identifier: "http://example.com/left/party",
+      members: [dataFactory.namedNode("http://example.com/left/person")],
+      sameAs: [partyWikidataIri],
+      subOrganizations: [leftCaucus.identifier],
+    });
+    const leftPerson = new Person({
+      hasOccupation: [
+        new Role({
+          identifier: "http://example.com/left/role",
+          party: leftParty.identifier,
+        }),
+      ],
+      identifier: "http://example.com/left/person",
+      memberOf: [leftParty.identifier],
+    });
+    const rightCaucus = new Organization({
+      identifier: "http://example.com/right/caucus",
+      parentOrganizations: [
+        dataFactory.namedNode("http://example.com/right/party"),
+      ],
+      sameAs: [caucusWikidataIri],
+    });
+    const rightParty = new Organization({
+      identifier: "http://example.com/right/party",
+      members: [dataFactory.namedNode("http://example.com/right/person")],
+      sameAs: [partyWikidataIri],
+      subOrganizations: [rightCaucus.identifier, caucusWikidataIri],
+    });
+    const rightPerson = new Person({
+      hasOccupation: [
+        new Role({
+          identifier: "http://example.com/right/role",
+          party: rightParty.identifier,
+        }),
+      ],
+      identifier: "http://example.com/right/person",
+      memberOf: [
+        rightParty.identifier,
+        partyWikidataIri,
+        rightCaucus.identifier,
+      ],
+    });
+    const modelSet = new CompositeModelSet({
+      modelSets: [
+        new JsonModelSet({
+          organizations: [leftParty, leftCaucus],
+          people: [leftPerson],
+        }),
+        new JsonModelSet({
+          organizations: [rightParty, rightCaucus],
+          people: [rightPerson],
+        }),
+      ],
+    });
+
+    it("should map references to the merged organizations", async ({
+      expect,
+    }) => {
+      const organizations = (await modelSet.organizations()).unsafeCoerce();
+      expect(
+        organizations.map((organization) => organization.identifier.value),
+      ).toStrictEqual([
+        leftParty.identifier.value,
+        leftCaucus.identifier.value,
+      ]);
+      const [party, caucus] = organizations;
+      expect(party.members.map((term) => term.value)).toStrictEqual([
+        leftPerson.identifier.value,
+        rightPerson.identifier.value,
+      ]);
+      expect(party.subOrganizations.map((term) => term.value)).toStrictEqual([
+        leftCaucus.identifier.value,
+      ]);
+      expect(
+        caucus.parentOrganizations.map((term) => term.value),
+      ).toStrictEqual([leftParty.identifier.value]);
+
+      const person = (await modelSet.person(rightPerson.identifier))
+        .unsafeCoerce()
+        .unsafeCoerce();
+      expect(person.memberOf.map((term) => term.value)).toStrictEqual([
+        leftParty.identifier.value,
+        leftCaucus.identifier.value,
+      ]);
+      expect(
+        person.hasOccupation.map((occupation) => occupation.toJson()),
+      ).toMatchObject([
+        {
+          "@id": "http://example.com/right/role",
+          party: { "@id": leftParty.identifier.value },
+        },
+      ]);
+    });
+
+    it("should query people by any of a merged organization's IRIs", async ({
+      expect,
+    }) => {
+      for (const memberOf of [
+        leftParty.identifier,
+        rightParty.identifier,
+        partyWikidataIri,
+      ]) {
+        expect(
+          (await modelSet.people({ memberOf }))
+            .unsafeCoerce()
+            .map((person) => person.identifier.value),
+        ).toStrictEqual([
+          leftPerson.identifier.value,
+          rightPerson.identifier.value,
+        ]);
+      }
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it } from "vitest";
+import { JsonModelSet } from "../src/JsonModelSet";
+import { behavesLikeModelSet } from "./behavesLikeModelSet";
+import { testData } from "./testData";
+
+describe("JsonModelSet", () => {
+  behavesLikeModelSet(testData.jsonModelSet);
+
+  it("should dump a ModelSet", async ({ expect }) => {
+    expect(
+      (await JsonModelSet.dump(testData.rdfjsDatasetModelSet)).unsafeCoerce(),
+    ).toEqual(testData.json);
+  });
+
+  it("should reject invalid JSON", ({ expect }) => {
+    expect(JsonModelSet.fromJson([]).isLeft()).toStrictEqual(true);
+    expect(
+      JsonModelSet.fromJson({ people: [{ type: "Person" }] }).isLeft(),
+    ).toStrictEqual(true);
+  });
+});
@@ -0,0 +1,281 @@
+import * as N3 from "n3";
+import { describe, it } from "vitest";
+import { Organization, Person, Role } from "../src";
+import { MutableRdfjsDatasetModelSet } from "../src/MutableRdfjsDatasetModelSet";
+import { schema } from "../src/schema";
+import { behavesLikeModelSet } from "./behavesLikeModelSet";
+import { testData } from "./testData";
+
+describe("MutableRdfjsDatasetModelSet", () => {
+  const newModelSet = () => {
+    const dataset = new N3.Store();
+    const modelSet = new MutableRdfjsDatasetModelSet({ dataset });
+    for (const administrativeArea of testData.models.administrativeAreas) {
+      modelSet.addAdministrativeAreaSync(administrativeArea).unsafeCoerce();
+    }
+    for (const person of testData.models.people) {
+      modelSet.addPersonSync(person).unsafeCoerce();
+    }
+    for (const organization of testData.models.organizations) {
+      modelSet.addOrganizationSync(organization).unsafeCoerce();
+    }
+    return { dataset, modelSet };
+  };
+
+  behavesLikeModelSet(newModelSet().modelSet);
+
+  const [organization0, organization1] = testData.models.organizations;
+  const [person0, person1] = testData.models.people;
+
+  const getOrganization = async (
+    modelSet: MutableRdfjsDatasetModelSet,
+    identifier: Organization["identifier"],
+  ) => (await modelSet.organization(identifier)).unsafeCoerce().unsafeCoerce();
+
+  const getPerson = async (
+    modelSet: MutableRdfjsDatasetModelSet,
+    identifier: Person["identifier"],
+  ) => (await modelSet.person(identifier)).unsafeCoerce().unsafeCoerce();
+
+  const values = (terms: readonly { value: string }[]) =>
+    terms.map((term) => term.value).sort();
+
+  it("should add a person and link the organizations it's a member of", async ({
+    expect,
+  }) => {
+    const { modelSet } = newModelSet();
+    const person = new Person({
+      identifier: "http://example.com/person/new",
+      memberOf: [organization1.identifier],
+      name: "New Person",
+    });
+    expect((await modelSet.addPerson(person)).isRight()).toStrictEqual(true);
+    expect(
+      (await getPerson(modelSet, person.identifier)).equals(person).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      values(
+        (await getOrganization(modelSet, organization1.identifier)).members,
+      ),
+    ).toStrictEqual(values([...organization1.members, person.identifier]));
+  });
+
+  it("should not add a person that already exists", async ({ expect }) => {
+    const { modelSet } = newModelSet();
+    expect((await modelSet.addPerson(person0)).isLeft()).toStrictEqual(true);
+  });
+
+  it("should add an organization and link its members and parents", async ({
+    expect,
+  }) => {
+    const { modelSet } = newModelSet();
+    const organization = new Organization({
+      identifier: "http://example.com/organization/new",
+      members: [person1.identifier],
+      parentOrganizations: [organization1.identifier],
+    });
+    expect(
+      (await modelSet.addOrganization(organization)).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      values((await getPerson(modelSet, person1.identifier)).memberOf),
+    ).toStrictEqual(values([...person1.memberOf, organization.identifier]));
+    expect(
+      values(
+        (await getOrganization(modelSet, organization1.identifier))
+          .subOrganizations,
+      ),
+    ).toStrictEqual([organization.identifier.value]);
+  });
+
+  it("should not link an organization member back with memberOf", async ({
+    expect,
+  }) => {
+    const { dataset, modelSet } = newModelSet();
+    const organization = new Organization({
+      identifier: "http://example.com/organization/coalition",
+      members: [organization0.identifier, person1.identifier],
+    });
+    expect(
+      (await modelSet.addOrganization(organization)).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      dataset.countQuads(
+        organization0.identifier,
+        schema.memberOf,
+        organization.identifier,
+        null,
+      ),
+    ).toStrictEqual(0);
+    expect(
+      values((await getPerson(modelSet, person1.identifier)).memberOf),
+    ).toStrictEqual(values([...person1.memberOf, organization.identifier]));
+    expect(
+      values(
+        (await getOrganization(modelSet, organization.identifier)).members,
+      ),
+    ).toStrictEqual(values(organization.members));
+  });
+
+  it("should update a person's memberships", async ({ expect }) => {
+    const { modelSet } = newModelSet();
+    const person = new Person({
+      hasOccupation: person0.hasOccupation,
+      identifier: person0.identifier,
+      memberOf: [organization1.identifier],
+      name: "Updated Person",
+    });
+    expect((await modelSet.updatePerson(person)).isRight()).toStrictEqual(true);
+    expect(
+      (await getPerson(modelSet, person0.identifier)).name.extract(),
+    ).toStrictEqual("Updated Person");
+    expect(
+      (await getOrganization(modelSet, organization0.identifier)).members.some(
+        (member) => member.equals(person0.identifier),
+      ),
+    ).toStrictEqual(false);
+    expect(
+      (await getOrganization(modelSet, organization1.identifier)).members.some(
+        (member) => member.equals(person0.identifier),
+      ),
+    ).toStrictEqual(true);
+  });
+
+  it("should not update a person that doesn't exist", async ({ expect }) => {
+    const { modelSet } = newModelSet();
+    expect(
+      (
+        await modelSet.updatePerson(
+          new Person({ identifier: "http://example.com/person/missing" }),
+        )
+      ).isLeft(),
+    ).toStrictEqual(true);
+  });
+
+  it("should update an organization's parents", async ({ expect }) => {
+    const { modelSet } = newModelSet();
+    const organization = new Organization({
+      identifier: organization1.identifier,
+      members: organization1.members,
+    });
+    expect(
+      (await modelSet.updateOrganization(organization)).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      (await getOrganization(modelSet, organization0.identifier))
+        .subOrganizations,
+    ).toHaveLength(0);
+    expect(
+      values((await getPerson(modelSet, person1.identifier)).memberOf),
+    ).toStrictEqual([organization1.identifier.value]);
+  });
+
+  it("should delete a person, its memberships, its roles, and its contact information", async ({
+    expect,
+  }) => {
+    const { dataset, modelSet } = newModelSet();
+    const role = person0.hasOccupation[0] as Role;
+    expect(
+      (await modelSet.deletePerson(person0.identifier)).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      (await modelSet.person(person0.identifier)).unsafeCoerce().isNothing(),
+    ).toStrictEqual(true);
+    expect(
+      (await getOrganization(modelSet, organization0.identifier)).members.some(
+        (member) => member.equals(person0.identifier),
+      ),
+    ).toStrictEqual(false);
+    expect(dataset.match(role.identifier, null, null).size).toStrictEqual(0);
+    for (const nested of [...person0.addresses, ...person0.contactPoints]) {
+      expect(dataset.match(nested.identifier, null, null).size).toStrictEqual(
+        0,
+      );
+    }
+    expect(
+      dataset.match(null, null, person0.identifier).size +
+        dataset.match(person0.identifier, null, null).size,
+    ).toStrictEqual(0);
+  });
+
+  it("should keep a role that's shared with another person", async ({
+    expect,
+  }) => {
+    const { dataset, modelSet } = newModelSet();
+    const role = person0.hasOccupation[0] as Role;
+    expect(
+      (
+        await modelSet.addPerson(
+          new Person({
+            hasOccupation: [role],
+            identifier: "http://example.com/person/new",
+          }),
+        )
+      ).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      (await modelSet.deletePerson(person0.identifier)).isRight(),
+    ).toStrictEqual(true);
+    expect(dataset.match(role.identifier, null, null).size).toBeGreaterThan(0);
+  });
+
+  it("should delete an organization and its inverse links", async ({
+    expect,
+  }) => {
+    const { modelSet } = newModelSet();
+    expect(
+      (await modelSet.deleteOrganization(organization0.identifier)).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      (await modelSet.organizations())
+        .unsafeCoerce()
+        .map((_) => _.identifier.value),
+    ).toStrictEqual([organization1.identifier.value]);
+    expect(
+      (await getOrganization(modelSet, organization1.identifier))
+        .parentOrganizations,
+    ).toHaveLength(0);
+    expect(
+      (await getPerson(modelSet, person0.identifier)).memberOf,
+    ).toHaveLength(0);
+  });
+
+  it("should delete an administrative area and its inverse links", async ({
+    expect,
+  }) => {
+    const { modelSet } = newModelSet();
+    const [, state, district] = testData.models.administrativeAreas;
+    expect(
+      (await modelSet.deleteAdministrativeArea(district.identifier)).isRight(),
+    ).toStrictEqual(true);
+    expect(
+      (await modelSet.administrativeArea(district.identifier))
+        .unsafeCoerce()
+        .isNothing(),
+    ).toStrictEqual(true);
+    expect(
+      values(
+        (await modelSet.administrativeArea(state.identifier))
+          .unsafeCoerce()
+          .unsafeCoerce().containsPlace,
+      ),
+    ).toStrictEqual(
+      values(
+        state.containsPlace.filter(
+          (identifier) => !identifier.equals(district.identifier),
+        ),
+      ),
+    );
+  });
+
+  it("should not delete a person that doesn't exist", async ({ expect }) => {
+    const { modelSet } = newModelSet();
+    expect(
+      (await modelSet.deletePerson(organization0.identifier)).isLeft(),
+    ).toStrictEqual(true);
+  });
+
+  it("should add the same statements as the models' toRdf", ({ expect }) => {
+    expect(newModelSet().dataset.size).toStrictEqual(testData.dataset.size);
+  });
+});
@@ -1,7 +1,184 @@
-import { describe } from "vitest";
+import N3 from "n3";
+import { Left } from "purify-ts";
+import { MutableResourceSet, Resource } from "rdfjs-resource";
+import { afterEach, describe, it, vi } from "vitest";
+import { AdministrativeArea, Person } from "../src";
+import { RdfjsDatasetModelSet } from "../src/RdfjsDatasetModelSet";
 import { behavesLikeModelSet } from "./behavesLikeModelSet";
 import { testData } from "./testData";
 
 describe("RdfjsDatasetModelSet", () => {
   behavesLikeModelSet(testData.rdfjsDatasetModelSet);
+
+  describe("with a graph filter", () => {
+    const organizationsGraph = N3.DataFactory.namedNode(
+      "http://example.com/graph/organizations",
+    );
+    const peopleGraph = N3.DataFactory.namedNode(
+      "http://example.com/graph/people",
+    );
+    const dataset = new N3.Store();
+    const resourceSet = new MutableResourceSet({
+      dataFactory: N3.DataFactory,
+      dataset,
+    });
+    for (const organization of testData.models.organizations) {
+      organization.toRdf({ mutateGraph: organizationsGraph, resourceSet });
+    }
+    for (const person of testData.models.people) {
+      person.toRdf({ mutateGraph: peopleGraph, resourceSet });
+    }
+
+    const identifiers = (
+      models: readonly { identifier: { value: string } }[],
+    ) => models.map((model) => model.identifier.value);
+
+    it("should include graphs", async ({ expect }) => {
+      const modelSet = new RdfjsDatasetModelSet({
+        dataset,
+        graphs: { include: [peopleGraph] },
+      });
+      expect(
+        identifiers(
+          (
+            await modelSet.people({ orderBy: { property: "identifier" } })
+          ).unsafeCoerce(),
+        ),
+      ).toStrictEqual(identifiers(testData.models.people));
+      expect((await modelSet.organizations()).unsafeCoerce()).toHaveLength(0);
+    });
+
+    it("should exclude graphs", async ({ expect }) => {
+      const modelSet = new RdfjsDatasetModelSet({
+        dataset,
+        graphs: { exclude: [peopleGraph] },
+      });
+      expect((await modelSet.people()).unsafeCoerce()).toHaveLength(0);
+      expect(
+        identifiers((await modelSet.organizations()).unsafeCoerce()),
+      ).toStrictEqual(identifiers(testData.models.organizations));
+    });
+  });
+
+  describe("with a malformed AdministrativeArea", () => {
+    const malformedAdministrativeArea = testData.models.administrativeAreas[0];
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const spyOnAdministrativeAreaFromRdf = () => {
+      const administrativeAreaFromRdf = AdministrativeArea.fromRdf;
+      vi.spyOn(AdministrativeArea, "fromRdf").mockImplementation(
+        (parameters) =>
+          parameters.resource.identifier.equals(
+            malformedAdministrativeArea.identifier,
+          )
+            ? Left(
+                new Resource.ValueError({
+                  focusResource: parameters.resource,
+                  message: "malformed",
+                  predicate: AdministrativeArea.fromRdfType,
+                }),
+              )
+            : administrativeAreaFromRdf(parameters),
+      );
+    };
+
+    it("should skip the AdministrativeArea when lenient", async ({
+      expect,
+    }) => {
+      spyOnAdministrativeAreaFromRdf();
+      expect(
+        (
+          await new RdfjsDatasetModelSet({
+            dataset: testData.dataset,
+            lenient: true,
+          }).administrativeAreas()
+        ).unsafeCoerce(),
+      ).toHaveLength(testData.models.administrativeAreas.length - 1);
+    });
+
+    it("should report diagnostics", ({ expect }) => {
+      spyOnAdministrativeAreaFromRdf();
+      const { diagnostics, models } = new RdfjsDatasetModelSet({
+        dataset: testData.dataset,
+      }).administrativeAreasWithDiagnosticsSync();
+      expect(models).toHaveLength(
+        testData.models.administrativeAreas.length - 1,
+      );
+      expect(diagnostics).toHaveLength(1);
+      expect(
+        diagnostics[0].identifier.equals(
+          malformedAdministrativeArea.identifier,
+        ),
+      ).toStrictEqual(true);
+      expect(diagnostics[0].error.message).toStrictEqual("malformed");
+    });
+  });
+
+  describe("with a malformed Person", () => {
+    const malformedPerson = testData.models.people[1];
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const spyOnPersonFromRdf = () => {
+      const personFromRdf = Person.fromRdf;
+      vi.spyOn(Person, "fromRdf").mockImplementation((parameters) =>
+        parameters.resource.identifier.equals(malformedPerson.identifier)
+          ? Left(
+              new Resource.ValueError({
+                focusResource: parameters.resource,
+                message: "malformed",
+                predicate: Person.fromRdfType,
+              }),
+            )
+          : personFromRdf(parameters),
+      );
+    };
+
+    it("should fail by default", async ({ expect }) => {
+      spyOnPersonFromRdf();
+      expect(
+        (
+          await new RdfjsDatasetModelSet({
+            dataset: testData.dataset,
+          }).people()
+        ).isLeft(),
+      ).toStrictEqual(true);
+    });
+
+    it("should skip the Person when lenient", async ({ expect }) => {
+      spyOnPersonFromRdf();
+      expect(
+        (
+          await new RdfjsDatasetModelSet({
+            dataset: testData.dataset,
+            lenient: true,
+          }).people()
+        )
+          .unsafeCoerce()
+          .map((model) => model.identifier.value),
+      ).toStrictEqual(
+        testData.models.people
+          .filter((model) => model !== malformedPerson)
+          .map((model) => model.identifier.value),
+      );
+    });
+
+    it("should report diagnostics", ({ expect }) => {
+      spyOnPersonFromRdf();
+      const { diagnostics, models } = new RdfjsDatasetModelSet({
+        dataset: testData.dataset,
+      }).peopleWithDiagnosticsSync();
+      expect(models).toHaveLength(testData.models.people.length - 1);
+      expect(diagnostics).toHaveLength(1);
+      expect(
+        diagnostics[0].identifier.equals(malformedPerson.identifier),
+      ).toStrictEqual(true);
+      expect(diagnostics[0].error.message).toStrictEqual("malformed");
+    });
+  });
 });
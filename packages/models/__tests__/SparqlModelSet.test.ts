@@ -0,0 +1,148 @@
+import * as N3 from "n3";
+import * as oxigraph from "oxigraph";
+import { MutableResourceSet } from "rdfjs-resource";
+import { describe, it } from "vitest";
+import { type ModelSet, Person, Role } from "../src";
+import { SparqlModelSet } from "../src/SparqlModelSet";
+import { behavesLikeModelSet } from "./behavesLikeModelSet";
+import { testData } from "./testData";
+
+function sparqlModelSet(dataset: Iterable<N3.Quad>): {
+  modelSet: SparqlModelSet;
+  queries: string[];
+} {
+  const oxigraphStore = new oxigraph.Store();
+  oxigraphStore.load(
+    new N3.Writer({ format: "N-Triples" }).quadsToString([...dataset]),
+    { format: "application/n-triples" },
+  );
+  const queries: string[] = [];
+  return {
+    modelSet: new SparqlModelSet({
+      endpointUrl: "http://localhost/sparql",
+      fetch: async (_input, init) => {
+        queries.push(init!.body as string);
+        return new Response(
+          oxigraphStore.query(init!.body as string, {
+            results_format: "application/n-triples",
+          }) as string,
+          { headers: { "content-type": "application/n-triples" } },
+        );
+      },
+    }),
+    queries,
+  };
+}
+
+describe("SparqlModelSet", () => {
+  behavesLikeModelSet(testData.sparqlModelSet);
+
+  it("should only CONSTRUCT a page of people if the query can be evaluated on the endpoint", async ({
+    expect,
+  }) => {
+    const { modelSet, queries } = sparqlModelSet(testData.dataset);
+
+    expect(
+      (await modelSet.people({ limit: 1, name: "person", offset: 1 }))
+        .unsafeCoerce()
+        .map((person) => person.identifier.value),
+    ).toStrictEqual([testData.models.people[1].identifier.value]);
+    expect(queries.at(-1)).toContain("LIMIT 1 OFFSET 1");
+
+    expect(
+      (
+        await modelSet.people({
+          hasOccupation: { roleName: testData.roleNames.senator },
+          limit: 1,
+        })
+      )
+        .unsafeCoerce()
+        .map((person) => person.identifier.value),
+    ).toStrictEqual([testData.models.people[1].identifier.value]);
+    expect(queries.at(-1)).not.toContain("LIMIT");
+  });
+
+  it("should order people by identifier the same with and without paging", async ({
+    expect,
+  }) => {
+    // Code point and locale orders differ on case
+    const dataset = new N3.Store();
+    for (const identifier of ["a", "B", "c"]) {
+      new Person({
+        identifier: `http://example.com/person/${identifier}`,
+      }).toRdf({
+        resourceSet: new MutableResourceSet({
+          dataFactory: N3.DataFactory,
+          dataset,
+        }),
+      });
+    }
+    const { modelSet, queries } = sparqlModelSet(dataset);
+    const identifiers = async (query?: ModelSet.PeopleQuery) =>
+      (await modelSet.people(query))
+        .unsafeCoerce()
+        .map((person) => person.identifier.value.split("/").at(-1));
+
+    expect(await identifiers()).toStrictEqual(["B", "a", "c"]);
+    for (const [direction, expected] of [
+      ["ascending", ["B", "a", "c"]],
+      ["descending", ["c", "a", "B"]],
+    ] as const) {
+      for (let offset = 0; offset < 3; offset++) {
+        expect(
+          await identifiers({
+            limit: 1,
+            offset,
+            orderBy: { direction, property: "identifier" },
+          }),
+        ).toStrictEqual([expected[offset]]);
+        expect(queries.at(-1)).toContain("LIMIT 1");
+      }
+    }
+  });
+
+  it("should encode IRIs in queries", async ({ expect }) => {
+    const { modelSet } = sparqlModelSet(testData.dataset);
+    expect(
+      (
+        await modelSet.people({
+          memberOf: N3.DataFactory.namedNode(
+            "http://example.com/organization/0> . } #",
+          ),
+        })
+      ).unsafeCoerce(),
+    ).toStrictEqual([]);
+  });
+
+  it("should sort a Person's hasOccupation by startDate", async ({
+    expect,
+  }) => {
+    const roles = [2010, 1990, 2000].map(
+      (year) =>
+        new Role({
+          roleName: testData.roleNames.representative,
+          startDate: new Date(`${year}-01-03`),
+        }),
+    );
+    const person = new Person({
+      hasOccupation: roles,
+      identifier: "http://example.com/person/roles",
+    });
+    const dataset = new N3.Store();
+    person.toRdf({
+      resourceSet: new MutableResourceSet({
+        dataFactory: N3.DataFactory,
+        dataset,
+      }),
+    });
+
+    expect(
+      (await sparqlModelSet(dataset).modelSet.person(person.identifier))
+        .unsafeCoerce()
+        .unsafeCoerce()
+        .hasOccupation.map((occupation) => occupation.identifier.value),
+    ).toStrictEqual(
+      [roles[1], roles[2], roles[0]].map((role) => role.identifier.value),
+    );
+  });
+});
@@ -1,11 +1,275 @@
-import { it } from "vitest";
+import * as N3 from "n3";
+import { type ExpectStatic, it } from "vitest";
+import { Person } from "../src";
 import { ModelSet } from "../src/ModelSet";
 import { testData } from "./testData.js";
 
 export function behavesLikeModelSet(modelSet: ModelSet): void {
+  const expectPeople = async (
+    expect: ExpectStatic,
+    query: ModelSet.PeopleQuery,
+    expectedPeople: readonly Person[],
+  ) => {
+    expect(
+      (await modelSet.people(query))
+        .unsafeCoerce()
+        .map((model) => model.identifier.value),
+    ).toStrictEqual(expectedPeople.map((model) => model.identifier.value));
+  };
+  it("should get an administrative area", async ({ expect }) => {
+    const expectedAdministrativeArea =
+      testData.models.administrativeAreas.at(-1)!;
+    const actualAdministrativeArea = (
+      await modelSet.administrativeArea(expectedAdministrativeArea.identifier)
+    )
+      .unsafeCoerce()
+      .unsafeCoerce();
+    expect(actualAdministrativeArea.toJson()).toEqual(
+      expectedAdministrativeArea.toJson(),
+    );
+  });
+
+  it("should get administrative areas", async ({ expect }) => {
+    expect(
+      testData.models.administrativeAreas.map((model) => model.toJson()),
+    ).toEqual(
+      (await modelSet.administrativeAreas())
+        .unsafeCoerce()
+        .map((model) => model.toJson()),
+    );
+  });
+
+  it("should get an organization", async ({ expect }) => {
+    const expectedOrganization = testData.models.organizations[0];
+    const actualOrganization = (
+      await modelSet.organization(expectedOrganization.identifier)
+    )
+      .unsafeCoerce()
+      .unsafeCoerce();
+    expect(actualOrganization.toJson()).toEqual(expectedOrganization.toJson());
+  });
+
+  it("should not get a missing organization", async ({ expect }) => {
+    expect(
+      (
+        await modelSet.organization(
+          N3.DataFactory.namedNode("http://example.com/organization/missing"),
+        )
+      )
+        .unsafeCoerce()
+        .isNothing(),
+    ).toStrictEqual(true);
+  });
+
+  it("should get organizations", async ({ expect }) => {
+    expect(
+      testData.models.organizations.map((model) => model.toJson()),
+    ).toEqual(
+      (await modelSet.organizations())
+        .unsafeCoerce()
+        .map((model) => model.toJson()),
+    );
+  });
+
   it("should get people", async ({ expect }) => {
     expect(testData.models.people.map((model) => model.toJson())).toEqual(
       (await modelSet.people()).unsafeCoerce().map((model) => model.toJson()),
     );
   });
+
+  it("should get a person", async ({ expect }) => {
+    const expectedPerson = testData.models.people[1];
+    const actualPerson = (await modelSet.person(expectedPerson.identifier))
+      .unsafeCoerce()
+      .unsafeCoerce();
+    expect(actualPerson.toJson()).toEqual(expectedPerson.toJson());
+  });
+
+  it("should not get a missing person", async ({ expect }) => {
+    expect(
+      (
+        await modelSet.person(
+          N3.DataFactory.namedNode("http://example.com/person/missing"),
+        )
+      )
+        .unsafeCoerce()
+        .isNothing(),
+    ).toStrictEqual(true);
+  });
+
+  it("should not get an organization as a person", async ({ expect }) => {
+    expect(
+      (await modelSet.person(testData.models.organizations[0].identifier))
+        .unsafeCoerce()
+        .isNothing(),
+    ).toStrictEqual(true);
+  });
+
+  it("should filter people by birthDate", async ({ expect }) => {
+    await expectPeople(
+      expect,
+      { birthDate: { end: new Date("1955-01-01") } },
+      testData.models.people.slice(0, 2),
+    );
+    await expectPeople(
+      expect,
+      { birthDate: { start: new Date("1945-01-01") } },
+      testData.models.people.slice(1, 3),
+    );
+  });
+
+  it("should filter people by gender", async ({ expect }) => {
+    await expectPeople(expect, { gender: testData.schema.Female }, [
+      testData.models.people[0],
+      testData.models.people[2],
+    ]);
+  });
+
+  it("should filter people by hasOccupation", async ({ expect }) => {
+    await expectPeople(
+      expect,
+      { hasOccupation: { roleName: testData.roleNames.senator } },
+      [testData.models.people[1]],
+    );
+    await expectPeople(
+      expect,
+      {
+        hasOccupation: {
+          date: {
+            end: new Date("2005-01-01"),
+            start: new Date("2005-01-01"),
+          },
+        },
+      },
+      [testData.models.people[1]],
+    );
+    await expectPeople(
+      expect,
+      {
+        hasOccupation: {
+          date: { start: new Date("2005-01-01") },
+          roleName: testData.roleNames.representative,
+        },
+      },
+      [testData.models.people[2]],
+    );
+  });
+
+  it("should filter people by hasOccupation Role details", async ({
+    expect,
+  }) => {
+    await expectPeople(
+      expect,
+      { hasOccupation: { chamber: testData.chambers.senate } },
+      [testData.models.people[1]],
+    );
+    await expectPeople(
+      expect,
+      { hasOccupation: { district: 3, state: "NY" } },
+      [testData.models.people[2]],
+    );
+    await expectPeople(
+      expect,
+      { hasOccupation: { district: 3, state: "CA" } },
+      [],
+    );
+    await expectPeople(
+      expect,
+      {
+        hasOccupation: {
+          constituency: testData.models.administrativeAreas[0].identifier,
+        },
+      },
+      [testData.models.people[1]],
+    );
+    await expectPeople(
+      expect,
+      {
+        hasOccupation: {
+          chamber: testData.chambers.senate,
+          date: {
+            end: new Date("2005-01-01"),
+            start: new Date("2005-01-01"),
+          },
+          name: "Majority Leader",
+        },
+      },
+      [testData.models.people[1]],
+    );
+    await expectPeople(
+      expect,
+      {
+        hasOccupation: {
+          date: { start: new Date("2008-01-01") },
+          name: "Majority Leader",
+        },
+      },
+      [],
+    );
+    await expectPeople(
+      expect,
+      {
+        hasOccupation: {
+          date: { end: new Date("1995-01-01") },
+          state: "NY",
+        },
+      },
+      [testData.models.people[0]],
+    );
+  });
+
+  it("should filter people by memberOf", async ({ expect }) => {
+    await expectPeople(
+      expect,
+      { memberOf: testData.models.organizations[0].identifier },
+      [testData.models.people[0], testData.models.people[2]],
+    );
+  });
+
+  it("should filter people by name", async ({ expect }) => {
+    await expectPeople(expect, { name: "person 1" }, [
+      testData.models.people[1],
+    ]);
+    await expectPeople(expect, { name: "PERSON" }, testData.models.people);
+  });
+
+  it("should paginate people", async ({ expect }) => {
+    await expectPeople(expect, { limit: 1, offset: 1 }, [
+      testData.models.people[1],
+    ]);
+    await expectPeople(expect, { offset: 3 }, [testData.models.people[3]]);
+    await expectPeople(expect, { limit: 0 }, []);
+  });
+
+  it("should sort people", async ({ expect }) => {
+    await expectPeople(
+      expect,
+      { orderBy: { direction: "descending", property: "name" } },
+      [...testData.models.people].reverse(),
+    );
+    await expectPeople(
+      expect,
+      {
+        limit: 2,
+        orderBy: { direction: "descending", property: "birthDate" },
+      },
+      [testData.models.people[2], testData.models.people[1]],
+    );
+  });
+
+  it("should sort people missing the property last", async ({ expect }) => {
+    const [person0, person1, person2, person3] = testData.models.people;
+    for (const property of ["birthDate", "familyName"] as const) {
+      await expectPeople(
+        expect,
+        { orderBy: { direction: "ascending", property } },
+        [person0, person1, person2, person3],
+      );
+      await expectPeople(
+        expect,
+        { orderBy: { direction: "descending", property } },
+        [person2, person1, person0, person3],
+      );
+    }
+  });
 }
@@ -0,0 +1,80 @@
+import * as N3 from "n3";
+import { describe, it } from "vitest";
+import { Organization, Person } from "../src";
+import { JsonModelSet } from "../src/JsonModelSet";
+import { checkReferentialIntegrity } from "../src/checkReferentialIntegrity";
+import { testData } from "./testData";
+
+const dataFactory = N3.DataFactory;
+
+describe("checkReferentialIntegrity", () => {
+  it("should accept consistent links", async ({ expect }) => {
+    expect(
+      (
+        await checkReferentialIntegrity(testData.rdfjsDatasetModelSet)
+      ).unsafeCoerce(),
+    ).toHaveLength(0);
+  });
+
+  it("should report dangling and asymmetric links", async ({ expect }) => {
+    const person = new Person({
+      identifier: "http://example.com/person",
+      memberOf: [
+        dataFactory.namedNode("http://example.com/organization/child"),
+        dataFactory.namedNode("http://example.com/organization/missing"),
+      ],
+    });
+    const parentOrganization = new Organization({
+      identifier: "http://example.com/organization/parent",
+      members: [dataFactory.namedNode("http://example.com/organization/child")],
+    });
+    const childOrganization = new Organization({
+      identifier: "http://example.com/organization/child",
+      members: [dataFactory.namedNode("http://example.com/person/missing")],
+      parentOrganizations: [parentOrganization.identifier],
+    });
+
+    expect(
+      (
+        await checkReferentialIntegrity(
+          new JsonModelSet({
+            organizations: [parentOrganization, childOrganization],
+            people: [person],
+          }),
+        )
+      )
+        .unsafeCoerce()
+        .map(({ object, property, subject, type }) => ({
+          object: object.value,
+          property,
+          subject: subject.value,
+          type,
+        })),
+    ).toStrictEqual([
+      {
+        object: childOrganization.identifier.value,
+        property: "memberOf",
+        subject: person.identifier.value,
+        type: "asymmetric",
+      },
+      {
+        object: "http://example.com/organization/missing",
+        property: "memberOf",
+        subject: person.identifier.value,
+        type: "dangling",
+      },
+      {
+        object: "http://example.com/person/missing",
+        property: "members",
+        subject: childOrganization.identifier.value,
+        type: "dangling",
+      },
+      {
+        object: parentOrganization.identifier.value,
+        property: "parentOrganizations",
+        subject: childOrganization.identifier.value,
+        type: "asymmetric",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import * as N3 from "n3";
+import { MutableResourceSet } from "rdfjs-resource";
+import { describe, it } from "vitest";
+import { Organization, Person, Role } from "../src";
+import { JsonModelSet } from "../src/JsonModelSet";
+import { RdfjsDatasetModelSet } from "../src/RdfjsDatasetModelSet";
+import { committeeMemberships } from "../src/committeeMemberships";
+
+describe("committeeMemberships", () => {
+  const committee = new Organization({
+    identifier: "http://example.com/committee",
+  });
+  const otherCommittee = new Organization({
+    identifier: "http://example.com/committee/other",
+  });
+  const person = ({
+    committeeRoles,
+    index,
+  }: {
+    committeeRoles: readonly {
+      committee: Organization;
+      name: string;
+      rank: number;
+      side: "majority" | "minority";
+    }[];
+    index: number;
+  }) =>
+    new Person({
+      hasOccupation: committeeRoles.map(
+        ({ committee, name, rank, side }) =>
+          new Role({ committee: committee.identifier, name, rank, side }),
+      ),
+      identifier: `http://example.com/person/${index}`,
+    });
+  const people = [
+    person({
+      committeeRoles: [
+        { committee, name: "Member", rank: 2, side: "minority" },
+        {
+          committee: otherCommittee,
+          name: "Chair",
+          rank: 1,
+          side: "majority",
+        },
+      ],
+      index: 0,
+    }),
+    person({
+      committeeRoles: [
+        { committee, name: "Member", rank: 2, side: "majority" },
+      ],
+      index: 1,
+    }),
+    person({
+      committeeRoles: [
+        { committee, name: "Ranking Member", rank: 1, side: "minority" },
+      ],
+      index: 2,
+    }),
+    person({
+      committeeRoles: [{ committee, name: "Chair", rank: 1, side: "majority" }],
+      index: 3,
+    }),
+    person({
+      committeeRoles: [
+        {
+          committee: otherCommittee,
+          name: "Member",
+          rank: 2,
+          side: "majority",
+        },
+      ],
+      index: 4,
+    }),
+  ];
+  const organizations = [committee, otherCommittee];
+
+  const dataset = new N3.Store();
+  const resourceSet = new MutableResourceSet({
+    dataFactory: N3.DataFactory,
+    dataset,
+  });
+  for (const model of [...organizations, ...people]) {
+    model.toRdf({ resourceSet });
+  }
+
+  for (const [modelSetType, modelSet] of [
+    ["JsonModelSet", new JsonModelSet({ organizations, people })],
+    ["RdfjsDatasetModelSet", new RdfjsDatasetModelSet({ dataset })],
+  ] as const) {
+    it(`should list committee members in seniority order (${modelSetType})`, async ({
+      expect,
+    }) => {
+      expect(
+        (
+          await committeeMemberships({
+            committee: committee.identifier,
+            modelSet,
+          })
+        )
+          .unsafeCoerce()
+          .map(({ person, role }) => ({
+            name: role.name.extract(),
+            person: person.identifier.value,
+          })),
+      ).toStrictEqual([
+        { name: "Chair", person: "http://example.com/person/3" },
+        { name: "Member", person: "http://example.com/person/1" },
+        { name: "Ranking Member", person: "http://example.com/person/2" },
+        { name: "Member", person: "http://example.com/person/0" },
+      ]);
+    });
+  }
+});
@@ -0,0 +1,70 @@
+import { describe, it } from "vitest";
+import { ModelSetChanges, Organization, Person } from "../src";
+import { JsonModelSet } from "../src/JsonModelSet";
+import { diffModelSets } from "../src/diffModelSets";
+import { testData } from "./testData";
+
+describe("diffModelSets", () => {
+  it("should find no changes between equal ModelSets", async ({ expect }) => {
+    const changes = (
+      await diffModelSets({
+        newModelSet: testData.jsonModelSet,
+        oldModelSet: testData.rdfjsDatasetModelSet,
+      })
+    ).unsafeCoerce();
+    expect(ModelSetChanges.isEmpty(changes)).toStrictEqual(true);
+  });
+
+  it("should find added, changed, and removed models", async ({ expect }) => {
+    const [person0, person1, person2, person3] = testData.models.people;
+    const [organization0, organization1] = testData.models.organizations;
+    const newPerson = new Person({
+      identifier: "http://example.com/person/new",
+      name: "New Person",
+    });
+    const changedPerson1 = new Person({ ...person1, name: "Changed Person" });
+
+    const changes = (
+      await diffModelSets({
+        newModelSet: new JsonModelSet({
+          organizations: [organization0, organization1],
+          people: [person0, changedPerson1, person2, person3, newPerson],
+        }),
+        oldModelSet: new JsonModelSet({
+          organizations: [
+            organization0,
+            organization1,
+            new Organization({
+              identifier: "http://example.com/organization/removed",
+            }),
+          ],
+          people: testData.models.people,
+        }),
+      })
+    ).unsafeCoerce();
+
+    expect(ModelSetChanges.isEmpty(changes)).toStrictEqual(false);
+    expect(ModelSetChanges.toJson(changes)).toStrictEqual({
+      administrativeAreas: { added: [], changed: [], removed: [] },
+      organizations: {
+        added: [],
+        changed: [],
+        removed: ["http://example.com/organization/removed"],
+      },
+      people: {
+        added: [newPerson.identifier.value],
+        changed: [
+          { identifier: person1.identifier.value, propertyName: "name" },
+        ],
+        removed: [],
+      },
+    });
+    expect(ModelSetChanges.summary(changes)).toStrictEqual(
+      [
+        "administrativeAreas: 0 added, 0 changed, 0 removed",
+        "organizations: 0 added, 0 changed, 1 removed",
+        "people: 1 added, 1 changed, 0 removed",
+      ].join("\n"),
+    );
+  });
+});
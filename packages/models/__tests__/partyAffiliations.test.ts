@@ -0,0 +1,101 @@
+import * as N3 from "n3";
+import { describe, it } from "vitest";
+import { Occupation, Organization, Person, Role } from "../src";
+import { JsonModelSet } from "../src/JsonModelSet";
+import {
+  partyAffiliationAt,
+  partyAffiliations,
+  partyAt,
+} from "../src/partyAffiliations";
+
+const dataFactory = N3.DataFactory;
+
+describe("partyAffiliations", () => {
+  const democrat = new Organization({
+    identifier: "http://example.com/party/democrat",
+  });
+  const independent = new Organization({
+    identifier: "http://example.com/party/independent",
+  });
+  const republican = new Organization({
+    identifier: "http://example.com/party/republican",
+  });
+  const person = new Person({
+    hasOccupation: [
+      new Role({
+        caucus: democrat.identifier,
+        endDate: new Date("2007-01-03"),
+        party: independent.identifier,
+        startDate: new Date("2001-05-24"),
+      }),
+      new Occupation({ identifier: "http://example.com/occupation" }),
+      new Role({
+        endDate: new Date("2001-05-24"),
+        party: republican.identifier,
+        startDate: new Date("1995-01-04"),
+      }),
+    ],
+    identifier: "http://example.com/person",
+  });
+  const modelSet = new JsonModelSet({
+    organizations: [democrat, independent, republican],
+    people: [person],
+  });
+
+  it("should list party affiliations in order", ({ expect }) => {
+    expect(
+      partyAffiliations(person).map((partyAffiliation) => ({
+        caucus: partyAffiliation.caucus.extract()?.value,
+        party: partyAffiliation.party.value,
+      })),
+    ).toStrictEqual([
+      { caucus: undefined, party: republican.identifier.value },
+      {
+        caucus: democrat.identifier.value,
+        party: independent.identifier.value,
+      },
+    ]);
+  });
+
+  it("should get the party affiliation at a date", ({ expect }) => {
+    for (const [date, party] of [
+      ["1994-12-31", undefined],
+      ["2000-01-01", republican],
+      ["2001-05-24", independent],
+      ["2005-01-01", independent],
+      ["2008-01-01", undefined],
+    ] as const) {
+      expect(
+        partyAffiliationAt({ date: new Date(date), person })
+          .map((partyAffiliation) => partyAffiliation.party.value)
+          .extract(),
+      ).toStrictEqual(party?.identifier.value);
+    }
+  });
+
+  it("should look up the party at a date in a ModelSet", async ({ expect }) => {
+    expect(
+      (
+        await partyAt({
+          date: new Date("2000-01-01"),
+          modelSet,
+          person: person.identifier,
+        })
+      )
+        .unsafeCoerce()
+        .unsafeCoerce()
+        .identifier.equals(republican.identifier),
+    ).toStrictEqual(true);
+    expect(
+      (
+        await partyAt({
+          date: new Date("2000-01-01"),
+          modelSet,
+          person: dataFactory.namedNode("http://example.com/missing"),
+        })
+      )
+        .unsafeCoerce()
+        .isNothing(),
+    ).toStrictEqual(true);
+  });
+});
@@ -1,8 +1,15 @@
 import * as N3 from "n3";
+import * as oxigraph from "oxigraph";
 import { MutableResourceSet } from "rdfjs-resource";
+import { JsonModelSet } from "../src/JsonModelSet";
 import { RdfjsDatasetModelSet } from "../src/RdfjsDatasetModelSet";
+import { SparqlModelSet } from "../src/SparqlModelSet";
 
 const dataFactory = N3.DataFactory;
+const schema = {
+  Female: dataFactory.namedNode("http://schema.org/Female"),
+  Male: dataFactory.namedNode("http://schema.org/Male"),
+};
 const dataset = new N3.Store();
 const mutateGraph = N3.DataFactory.defaultGraph();
 const resourceSet = new MutableResourceSet({
@@ -10,24 +17,202 @@ const resourceSet = new MutableResourceSet({
   dataset,
 });
 
-import { Person } from "../src";
+import {
+  AdministrativeArea,
+  ContactPoint,
+  Organization,
+  Person,
+  PostalAddress,
+  Role,
+} from "../src";
+
+const chambers = {
+  house: dataFactory.namedNode("http://example.com/chamber/house"),
+  senate: dataFactory.namedNode("http://example.com/chamber/senate"),
+};
+
+const roleNames = {
+  representative: dataFactory.namedNode(
+    "https://www.wikidata.org/wiki/Q13218630",
+  ),
+  senator: dataFactory.namedNode("https://www.wikidata.org/wiki/Q4416090"),
+};
+
+const states = {
+  CA: new AdministrativeArea({
+    fipsCode: "06",
+    identifier: dataFactory.namedNode("http://example.com/place/CA"),
+    name: "California",
+    sameAs: [dataFactory.namedNode("http://www.wikidata.org/entity/Q99")],
+    state: "CA",
+  }),
+  NY: new AdministrativeArea({
+    fipsCode: "36",
+    identifier: dataFactory.namedNode("http://example.com/place/NY"),
+    name: "New York",
+    sameAs: [dataFactory.namedNode("http://www.wikidata.org/entity/Q1384")],
+    state: "NY",
+  }),
+};
+
+// Districts of the representatives' first Congresses
+const districts = [0, 2].map((index) => {
+  const congress = 101 + index * 5;
+  const district = index + 1;
+  return new AdministrativeArea({
+    congress,
+    containedInPlace: states.NY.identifier,
+    district,
+    identifier: dataFactory.namedNode(
+      `http://example.com/place/NY/${district}/${congress}`,
+    ),
+    name: `New York's congressional district ${district} (Congress ${congress})`,
+    state: "NY",
+  });
+});
+for (const district of districts) {
+  states.NY.containsPlace.push(district.identifier);
+}
+
+const administrativeAreas = [states.CA, states.NY, ...districts];
 
 const people = [...new Array(3).keys()].map(
   (_, index) =>
     new Person({
+      addresses: [
+        new PostalAddress({
+          addressLocality: "Washington",
+          addressRegion: "DC",
+          postalCode: "20515",
+          streetAddress: `${index + 1} Capitol Street`,
+        }),
+      ],
+      birthDate: new Date(`${1940 + index * 10}-01-01`),
+      contactPoints: [
+        new ContactPoint({
+          contactType: "office",
+          telephone: `202-555-010${index}`,
+        }),
+      ],
       identifier: dataFactory.namedNode(`http://example.com/person/${index}`),
+      gender: index % 2 === 0 ? schema.Female : schema.Male,
       givenName: "Person",
       familyName: index.toString(),
+      hasOccupation: [
+        index % 2 === 0
+          ? new Role({
+              chamber: chambers.house,
+              constituency: districts[index / 2].identifier,
+              district: index + 1,
+              endDate: new Date(`${2000 + index * 10}-01-03`),
+              roleName: roleNames.representative,
+              startDate: new Date(`${1990 + index * 10}-01-03`),
+              state: "NY",
+            })
+          : new Role({
+              chamber: chambers.senate,
+              constituency: states.CA.identifier,
+              endDate: new Date(`${2000 + index * 10}-01-03`),
+              roleName: roleNames.senator,
+              senateClass: 1,
+              startDate: new Date(`${1990 + index * 10}-01-03`),
+              state: "CA",
+              stateRank: "junior",
+            }),
+        ...(index === 1
+          ? [
+              new Role({
+                chamber: chambers.senate,
+                endDate: new Date("2007-01-03"),
+                name: "Majority Leader",
+                startDate: new Date("2003-01-03"),
+              }),
+            ]
+          : []),
+      ],
       name: `Person ${index}`,
     }),
 );
 
+const organizations = [...new Array(2).keys()].map(
+  (_, index) =>
+    new Organization({
+      contactPoints: [
+        new ContactPoint({
+          contactType: "RSS",
+          url: dataFactory.namedNode(
+            `http://example.com/organization/${index}/rss`,
+          ),
+        }),
+      ],
+      identifier: dataFactory.namedNode(
+        `http://example.com/organization/${index}`,
+      ),
+      name: `Organization ${index}`,
+    }),
+);
+organizations[0].subOrganizations.push(organizations[1].identifier);
+organizations[1].parentOrganizations.push(organizations[0].identifier);
+people.forEach((person, personI) => {
+  const organization = organizations[personI % organizations.length];
+  organization.members.push(person.identifier);
+  person.memberOf.push(organization.identifier);
+});
+// A Person without most properties, e.g., to sort people missing a property
+people.push(
+  new Person({
+    identifier: dataFactory.namedNode("http://example.com/person/3"),
+    name: "Person 3",
+  }),
+);
+
+administrativeAreas.forEach((administrativeArea) =>
+  administrativeArea.toRdf({ mutateGraph, resourceSet }),
+);
 people.forEach((person) => person.toRdf({ mutateGraph, resourceSet }));
+organizations.forEach((organization) =>
+  organization.toRdf({ mutateGraph, resourceSet }),
+);
+
+// In-process SPARQL endpoint
+const oxigraphStore = new oxigraph.Store();
+oxigraphStore.load(
+  new N3.Writer({ format: "N-Triples" }).quadsToString([...dataset]),
+  { format: "application/n-triples" },
+);
+const sparqlModelSet = new SparqlModelSet({
+  endpointUrl: "http://localhost/sparql",
+  fetch: async (_input, init) =>
+    new Response(
+      oxigraphStore.query(init!.body as string, {
+        results_format: "application/n-triples",
+      }) as string,
+      { headers: { "content-type": "application/n-triples" } },
+    ),
+});
+
+const json: JsonModelSet.Json = {
+  administrativeAreas: administrativeAreas.map((administrativeArea) =>
+    administrativeArea.toJson(),
+  ),
+  organizations: organizations.map((organization) => organization.toJson()),
+  people: people.map((person) => person.toJson()),
+};
 
 export const testData = {
+  chambers,
   dataset,
+  json,
+  jsonModelSet: JsonModelSet.fromJson(
+    JSON.parse(JSON.stringify(json)),
+  ).unsafeCoerce(),
   models: {
+    administrativeAreas,
+    organizations,
     people,
   },
   rdfjsDatasetModelSet: new RdfjsDatasetModelSet({ dataset }),
+  roleNames,
+  schema,
+  sparqlModelSet,
 };
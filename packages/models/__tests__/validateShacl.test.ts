@@ -0,0 +1,102 @@
+import * as N3 from "n3";
+import { MutableResourceSet } from "rdfjs-resource";
+import { describe, it } from "vitest";
+import { ImageObject, QuantitiveValue } from "../src";
+import { ShaclValidationReport, validateShacl } from "../src/validateShacl";
+import { testData } from "./testData";
+
+const dataFactory = N3.DataFactory;
+
+describe("validateShacl", () => {
+  it("should accept valid models", async ({ expect }) => {
+    const report = (
+      await validateShacl({ dataset: testData.dataset })
+    ).unsafeCoerce();
+    expect(report.conforms).toStrictEqual(true);
+    expect(ShaclValidationReport.format(report)).toStrictEqual("conforms");
+  });
+
+  it("should accept integers as serialized by toRdf", async ({ expect }) => {
+    const dataset = new N3.Store();
+    new ImageObject({
+      height: new QuantitiveValue({
+        identifier: "http://example.com/image#height",
+        value: 550,
+      }),
+      identifier: "http://example.com/image",
+      width: new QuantitiveValue({
+        identifier: "http://example.com/image#width",
+        value: 450,
+      }),
+    }).toRdf({
+      resourceSet: new MutableResourceSet({ dataFactory, dataset }),
+    });
+
+    expect(
+      ShaclValidationReport.format(
+        (await validateShacl({ dataset })).unsafeCoerce(),
+      ),
+    ).toStrictEqual("conforms");
+  });
+
+  it("should report violations", async ({ expect }) => {
+    const person = testData.models.people[0].identifier;
+    const dataset = new N3.Store([...testData.dataset]);
+    dataset.add(
+      dataFactory.quad(
+        person,
+        dataFactory.namedNode("http://schema.org/name"),
+        dataFactory.literal("Other name"),
+      ),
+    );
+
+    const report = (await validateShacl({ dataset })).unsafeCoerce();
+    expect(report.conforms).toStrictEqual(false);
+    expect(report.results).toHaveLength(1);
+    const result = report.results[0];
+    expect(result.focusNode.equals(person)).toStrictEqual(true);
+    expect(result.sourceConstraintComponent.value).toStrictEqual(
+      "http://www.w3.org/ns/shacl#MaxCountConstraintComponent",
+    );
+    expect(ShaclValidationReport.format(report)).toStrictEqual(
+      `Violation: <${person.value}> <http://schema.org/name>: More than 1 values [shape: <http://schema.org/Thing-name>]`,
+    );
+  });
+
+  it("should report a stateRank outside its vocabulary", async ({ expect }) => {
+    const stateRank = dataFactory.namedNode(
+      "http://purl.archive.org/purl/prosopa/ontology#stateRank",
+    );
+    const dataset = new N3.Store([...testData.dataset]);
+    const [quad] = dataset.getQuads(null, stateRank, null, null);
+    dataset.delete(quad);
+    dataset.add(
+      dataFactory.quad(quad.subject, stateRank, dataFactory.literal("middle")),
+    );
+
+    const report = (await validateShacl({ dataset })).unsafeCoerce();
+    expect(
+      report.results.map((result) => result.sourceConstraintComponent.value),
+    ).toStrictEqual(["http://www.w3.org/ns/shacl#InConstraintComponent"]);
+  });
+
+  it("should report a committee side outside its vocabulary", async ({
+    expect,
+  }) => {
+    const dataset = new N3.Store([...testData.dataset]);
+    dataset.add(
+      dataFactory.quad(
+        testData.models.people[0].hasOccupation[0].identifier,
+        dataFactory.namedNode(
+          "http://purl.archive.org/purl/prosopa/ontology#side",
+        ),
+        dataFactory.literal("neither"),
+      ),
+    );
+
+    const report = (await validateShacl({ dataset })).unsafeCoerce();
+    expect(
+      report.results.map((result) => result.sourceConstraintComponent.value),
+    ).toStrictEqual(["http://www.w3.org/ns/shacl#InConstraintComponent"]);
+  });
+});
@@ -0,0 +1,97 @@
+import { NamedNode } from "@rdfjs/types";
+import { Either, Maybe } from "purify-ts";
+import { ModelSet } from "./ModelSet.js";
+import { AdministrativeArea, Organization, Person } from "./generated.js";
+
+/**
+ * A ModelSet decorator that memoizes the results of another ModelSet per method and arguments.
+ *
+ * Concurrent calls with the same arguments share one underlying call. Left results are not cached, so failed calls are retried. Call invalidate() when the underlying data changes.
+ */
+export class CachingModelSet implements ModelSet {
+  private readonly cache = new Map<string, Promise<Either<Error, unknown>>>();
+  private readonly modelSet: ModelSet;
+
+  constructor({ modelSet }: { modelSet: ModelSet }) {
+    this.modelSet = modelSet;
+  }
+
+  /**
+   * Clear all memoized results.
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  administrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<AdministrativeArea>>> {
+    return this.memoize("administrativeArea", [identifier], () =>
+      this.modelSet.administrativeArea(identifier),
+    );
+  }
+
+  administrativeAreas(): Promise<Either<Error, readonly AdministrativeArea[]>> {
+    return this.memoize("administrativeAreas", [], () =>
+      this.modelSet.administrativeAreas(),
+    );
+  }
+
+  organization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<Organization>>> {
+    return this.memoize("organization", [identifier], () =>
+      this.modelSet.organization(identifier),
+    );
+  }
+
+  organizations(): Promise<Either<Error, readonly Organization[]>> {
+    return this.memoize("organizations", [], () =>
+      this.modelSet.organizations(),
+    );
+  }
+
+  people(
+    query?: ModelSet.PeopleQuery,
+  ): Promise<Either<Error, readonly Person[]>> {
+    return this.memoize("people", [query], () => this.modelSet.people(query));
+  }
+
+  person(identifier: NamedNode): Promise<Either<Error, Maybe<Person>>> {
+    return this.memoize("person", [identifier], () =>
+      this.modelSet.person(identifier),
+    );
+  }
+
+  private memoize<ResultT>(
+    method: keyof ModelSet,
+    args: readonly unknown[],
+    call: () => Promise<Either<Error, ResultT>>,
+  ): Promise<Either<Error, ResultT>> {
+    const key = cacheKey(method, args);
+    const cachedResult = this.cache.get(key);
+    if (cachedResult) {
+      return cachedResult as Promise<Either<Error, ResultT>>;
+    }
+
+    const result = call().then((resultEither) => {
+      if (resultEither.isLeft() && this.cache.get(key) === result) {
+        this.cache.delete(key);
+      }
+      return resultEither;
+    });
+    this.cache.set(key, result);
+    return result;
+  }
+}
+
+function cacheKey(method: string, args: readonly unknown[]): string {
+  return JSON.stringify([method, ...args], (_key, value) =>
+    // RDF/JS terms don't have a consistent JSON serialization across implementations
+    typeof value === "object" &&
+    value !== null &&
+    typeof value.termType === "string"
+      ? `${value.termType}:${value.value}`
+      : value,
+  );
+}
@@ -0,0 +1,453 @@
+import { NamedNode } from "@rdfjs/types";
+import { Either, Maybe } from "purify-ts";
+import { ModelSet } from "./ModelSet.js";
+import { AdministrativeArea, Organization, Person, Role } from "./generated.js";
+import { queryPeople } from "./peopleQuery.js";
+
+/**
+ * A ModelSet that combines several ModelSets and merges models that describe the same entity.
+ *
+ * Models are considered the same entity if they're connected by shared identifiers or sameAs IRIs, transitively. Merging is deterministic and follows the order of modelSets, which is treated as a priority order:
+ * - the merged model takes the identifier of the first model
+ * - single-valued properties (e.g., birthDate, name) take the first value that's present
+ * - multi-valued properties (e.g., sameAs, memberOf) are the union of all values, in order of first appearance
+ * - the identifiers of the other merged models are added to sameAs
+ * - references to other models (e.g., memberOf, members, a Role's party) are mapped to the identifiers of the merged models they refer to, without duplicates
+ *
+ * Queries are evaluated after merging, so every call reads all models from all modelSets. Front this class with a CachingModelSet if that's too expensive.
+ */
+export class CompositeModelSet implements ModelSet {
+  private readonly modelSets: readonly ModelSet[];
+
+  constructor({ modelSets }: { modelSets: readonly ModelSet[] }) {
+    this.modelSets = modelSets;
+  }
+
+  async administrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<AdministrativeArea>>> {
+    return (await this.administrativeAreas()).map((administrativeAreas) =>
+      findByIdentifierOrSameAs(administrativeAreas, identifier),
+    );
+  }
+
+  async administrativeAreas(): Promise<
+    Either<Error, readonly AdministrativeArea[]>
+  > {
+    return (await this.mergedModels()).map(
+      ({ administrativeAreas }) => administrativeAreas,
+    );
+  }
+
+  async organization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<Organization>>> {
+    return (await this.organizations()).map((organizations) =>
+      findByIdentifierOrSameAs(organizations, identifier),
+    );
+  }
+
+  async organizations(): Promise<Either<Error, readonly Organization[]>> {
+    return (await this.mergedModels()).map(
+      ({ organizations }) => organizations,
+    );
+  }
+
+  async people(
+    query?: ModelSet.PeopleQuery,
+  ): Promise<Either<Error, readonly Person[]>> {
+    return (await this.mergedModels()).map(({ identifiers, people }) =>
+      queryPeople(
+        people,
+        query ? mergePeopleQueryReferences(query, identifiers) : undefined,
+      ),
+    );
+  }
+
+  async person(identifier: NamedNode): Promise<Either<Error, Maybe<Person>>> {
+    return (await this.mergedModels()).map(({ people }) =>
+      findByIdentifierOrSameAs(people, identifier),
+    );
+  }
+
+  private async concatModels<ModelT>(
+    modelsFromModelSet: (
+      modelSet: ModelSet,
+    ) => Promise<Either<Error, readonly ModelT[]>>,
+  ): Promise<Either<Error, readonly ModelT[]>> {
+    const modelsEithers = await Promise.all(
+      this.modelSets.map(modelsFromModelSet),
+    );
+    const models: ModelT[] = [];
+    for (const modelsEither of modelsEithers) {
+      if (modelsEither.isLeft()) {
+        return modelsEither;
+      }
+      models.push(...modelsEither.unsafeCoerce());
+    }
+    return Either.of(models);
+  }
+
+  /**
+   * Merge the models of every kind together, since models reference models of other kinds (e.g., Person.memberOf references Organizations).
+   */
+  private async mergedModels(): Promise<
+    Either<
+      Error,
+      {
+        readonly administrativeAreas: readonly AdministrativeArea[];
+        readonly identifiers: MergedIdentifiers;
+        readonly organizations: readonly Organization[];
+        readonly people: readonly Person[];
+      }
+    >
+  > {
+    const [administrativeAreasEither, organizationsEither, peopleEither] =
+      await Promise.all([
+        this.concatModels((modelSet) => modelSet.administrativeAreas()),
+        this.concatModels((modelSet) => modelSet.organizations()),
+        this.concatModels((modelSet) => modelSet.people()),
+      ]);
+    return administrativeAreasEither.chain((administrativeAreas) =>
+      organizationsEither.chain((organizations) =>
+        peopleEither.map((people) => {
+          const administrativeAreaGroups = groupBySameAs(administrativeAreas);
+          const organizationGroups = groupBySameAs(organizations);
+          const personGroups = groupBySameAs(people);
+          const identifiers: MergedIdentifiers = {
+            administrativeAreas: mergedIdentifiers(administrativeAreaGroups),
+            organizations: mergedIdentifiers(organizationGroups),
+            people: mergedIdentifiers(personGroups),
+          };
+          return {
+            administrativeAreas: administrativeAreaGroups.map(
+              (administrativeAreas) =>
+                mergeAdministrativeAreas(administrativeAreas, identifiers),
+            ),
+            identifiers,
+            organizations: organizationGroups.map((organizations) =>
+              mergeOrganizations(organizations, identifiers),
+            ),
+            people: personGroups.map((people) =>
+              mergePeople(people, identifiers),
+            ),
+          };
+        }),
+      ),
+    );
+  }
+}
+
+/**
+ * The identifiers of merged models, keyed by the identifiers and sameAs IRIs of the models merged into them.
+ */
+interface MergedIdentifiers {
+  readonly administrativeAreas: ReadonlyMap<string, NamedNode>;
+  readonly organizations: ReadonlyMap<string, NamedNode>;
+  readonly people: ReadonlyMap<string, NamedNode>;
+}
+
+interface SameAsModel {
+  readonly identifier: NamedNode;
+  readonly sameAs: readonly NamedNode[];
+}
+
+function findByIdentifierOrSameAs<ModelT extends SameAsModel>(
+  models: readonly ModelT[],
+  identifier: NamedNode,
+): Maybe<ModelT> {
+  return Maybe.fromNullable(
+    models.find(
+      (model) =>
+        model.identifier.equals(identifier) ||
+        model.sameAs.some((sameAs) => sameAs.equals(identifier)),
+    ),
+  );
+}
+
+function firstJust<T>(maybes: readonly Maybe<T>[]): Maybe<T> {
+  return Maybe.fromNullable(maybes.find((maybe) => maybe.isJust())).chain(
+    (maybe) => maybe,
+  );
+}
+
+/**
+ * Partition models into groups connected by identifiers and sameAs IRIs. Groups and the models in them are in order of first appearance.
+ */
+function groupBySameAs<ModelT extends SameAsModel>(
+  models: readonly ModelT[],
+): readonly (readonly ModelT[])[] {
+  // Union-find over IRIs
+  const parents = new Map<string, string>();
+  const find = (iri: string): string => {
+    let root = iri;
+    for (
+      let parent = parents.get(root);
+      parent !== undefined && parent !== root;
+      parent = parents.get(root)
+    ) {
+      root = parent;
+    }
+    parents.set(iri, root);
+    return root;
+  };
+  const union = (leftIri: string, rightIri: string) => {
+    const leftRoot = find(leftIri);
+    const rightRoot = find(rightIri);
+    if (leftRoot !== rightRoot) {
+      parents.set(rightRoot, leftRoot);
+    }
+  };
+
+  for (const model of models) {
+    for (const sameAs of model.sameAs) {
+      union(model.identifier.value, sameAs.value);
+    }
+    find(model.identifier.value);
+  }
+
+  const groups = new Map<string, ModelT[]>();
+  for (const model of models) {
+    const root = find(model.identifier.value);
+    const group = groups.get(root);
+    if (group) {
+      group.push(model);
+    } else {
+      groups.set(root, [model]);
+    }
+  }
+  return [...groups.values()];
+}
+
+function mergeAdministrativeAreas(
+  administrativeAreas: readonly AdministrativeArea[],
+  identifiers: MergedIdentifiers,
+): AdministrativeArea {
+  return new AdministrativeArea({
+    ...mergeThingProperties(administrativeAreas),
+    congress: firstJust(
+      administrativeAreas.map(
+        (administrativeArea) => administrativeArea.congress,
+      ),
+    ),
+    containedInPlace: firstJust(
+      administrativeAreas.map(
+        (administrativeArea) => administrativeArea.containedInPlace,
+      ),
+    ).map((term) => mergedIdentifier(term, identifiers.administrativeAreas)),
+    containsPlace: mergedIdentifierTerms(
+      administrativeAreas.flatMap(
+        (administrativeArea) => administrativeArea.containsPlace,
+      ),
+      identifiers.administrativeAreas,
+    ),
+    district: firstJust(
+      administrativeAreas.map(
+        (administrativeArea) => administrativeArea.district,
+      ),
+    ),
+    fipsCode: firstJust(
+      administrativeAreas.map(
+        (administrativeArea) => administrativeArea.fipsCode,
+      ),
+    ),
+    state: firstJust(
+      administrativeAreas.map((administrativeArea) => administrativeArea.state),
+    ),
+  });
+}
+
+/**
+ * Map an IRI to the identifier of the merged model it refers to, if any.
+ */
+function mergedIdentifier(
+  term: NamedNode,
+  identifiers: ReadonlyMap<string, NamedNode>,
+): NamedNode {
+  return identifiers.get(term.value) ?? term;
+}
+
+/**
+ * Map IRIs to the identifiers of the merged models they refer to, dropping duplicates.
+ */
+function mergedIdentifierTerms(
+  terms: readonly NamedNode[],
+  identifiers: ReadonlyMap<string, NamedNode>,
+): NamedNode[] {
+  return uniqueTerms(terms.map((term) => mergedIdentifier(term, identifiers)));
+}
+
+/**
+ * Map the identifiers and sameAs IRIs of grouped models to the identifier of the model the group merges into.
+ */
+function mergedIdentifiers(
+  groups: readonly (readonly SameAsModel[])[],
+): ReadonlyMap<string, NamedNode> {
+  const identifiers = new Map<string, NamedNode>();
+  for (const group of groups) {
+    const identifier = group[0].identifier;
+    for (const model of group) {
+      identifiers.set(model.identifier.value, identifier);
+      for (const sameAs of model.sameAs) {
+        identifiers.set(sameAs.value, identifier);
+      }
+    }
+  }
+  return identifiers;
+}
+
+function mergeOrganizations(
+  organizations: readonly Organization[],
+  identifiers: MergedIdentifiers,
+): Organization {
+  return new Organization({
+    ...mergeThingProperties(organizations),
+    addresses: uniqueModels(
+      organizations.flatMap((organization) => organization.addresses),
+    ),
+    contactPoints: uniqueModels(
+      organizations.flatMap((organization) => organization.contactPoints),
+    ),
+    members: mergedIdentifierTerms(
+      organizations.flatMap((organization) => organization.members),
+      identifiers.people,
+    ),
+    parentOrganizations: mergedIdentifierTerms(
+      organizations.flatMap((organization) => organization.parentOrganizations),
+      identifiers.organizations,
+    ),
+    subOrganizations: mergedIdentifierTerms(
+      organizations.flatMap((organization) => organization.subOrganizations),
+      identifiers.organizations,
+    ),
+  });
+}
+
+/**
+ * Map the IRIs in a query to the identifiers of the merged models they refer to, so that querying by any of a merged model's IRIs finds the same people.
+ */
+function mergePeopleQueryReferences(
+  query: ModelSet.PeopleQuery,
+  identifiers: MergedIdentifiers,
+): ModelSet.PeopleQuery {
+  const { hasOccupation, memberOf } = query;
+  return {
+    ...query,
+    hasOccupation: hasOccupation
+      ? {
+          ...hasOccupation,
+          chamber: hasOccupation.chamber
+            ? mergedIdentifier(hasOccupation.chamber, identifiers.organizations)
+            : undefined,
+          committee: hasOccupation.committee
+            ? mergedIdentifier(
+                hasOccupation.committee,
+                identifiers.organizations,
+              )
+            : undefined,
+          constituency: hasOccupation.constituency
+            ? mergedIdentifier(
+                hasOccupation.constituency,
+                identifiers.administrativeAreas,
+              )
+            : undefined,
+          party: hasOccupation.party
+            ? mergedIdentifier(hasOccupation.party, identifiers.organizations)
+            : undefined,
+        }
+      : undefined,
+    memberOf: memberOf
+      ? mergedIdentifier(memberOf, identifiers.organizations)
+      : undefined,
+  };
+}
+
+function mergePeople(
+  people: readonly Person[],
+  identifiers: MergedIdentifiers,
+): Person {
+  return new Person({
+    ...mergeThingProperties(people),
+    addresses: uniqueModels(people.flatMap((person) => person.addresses)),
+    birthDate: firstJust(people.map((person) => person.birthDate)),
+    contactPoints: uniqueModels(
+      people.flatMap((person) => person.contactPoints),
+    ),
+    familyName: firstJust(people.map((person) => person.familyName)),
+    gender: firstJust(people.map((person) => person.gender)),
+    givenName: firstJust(people.map((person) => person.givenName)),
+    hasOccupation: uniqueModels(
+      people
+        .flatMap((person) => person.hasOccupation)
+        .map((occupation) =>
+          occupation.type === "Role"
+            ? mergeRoleReferences(occupation, identifiers)
+            : occupation,
+        ),
+    ),
+    images: uniqueModels(people.flatMap((person) => person.images)),
+    memberOf: mergedIdentifierTerms(
+      people.flatMap((person) => person.memberOf),
+      identifiers.organizations,
+    ),
+  });
+}
+
+function mergeRoleReferences(role: Role, identifiers: MergedIdentifiers): Role {
+  return new Role({
+    ...role,
+    caucus: role.caucus.map((term) =>
+      mergedIdentifier(term, identifiers.organizations),
+    ),
+    chamber: role.chamber.map((term) =>
+      mergedIdentifier(term, identifiers.organizations),
+    ),
+    committee: role.committee.map((term) =>
+      mergedIdentifier(term, identifiers.organizations),
+    ),
+    constituency: role.constituency.map((term) =>
+      mergedIdentifier(term, identifiers.administrativeAreas),
+    ),
+    identifier: role.identifier,
+    party: role.party.map((term) =>
+      mergedIdentifier(term, identifiers.organizations),
+    ),
+  });
+}
+
+function mergeThingProperties(
+  things: readonly (AdministrativeArea | Organization | Person)[],
+) {
+  const identifier = things[0].identifier;
+  return {
+    description: firstJust(things.map((thing) => thing.description)),
+    identifier,
+    identifiers: [...new Set(things.flatMap((thing) => thing.identifiers))],
+    name: firstJust(things.map((thing) => thing.name)),
+    sameAs: uniqueTerms(
+      things
+        .flatMap((thing) => [thing.identifier, ...thing.sameAs])
+        .filter((term) => !term.equals(identifier)),
+    ),
+    url: firstJust(things.map((thing) => thing.url)),
+  };
+}
+
+function uniqueModels<ModelT extends { identifier: NamedNode }>(
+  models: readonly ModelT[],
+): ModelT[] {
+  const identifiers = new Set<string>();
+  return models.filter((model) => {
+    if (identifiers.has(model.identifier.value)) {
+      return false;
+    }
+    identifiers.add(model.identifier.value);
+    return true;
+  });
+}
+
+function uniqueTerms(terms: readonly NamedNode[]): NamedNode[] {
+  return uniqueModels(terms.map((identifier) => ({ identifier }))).map(
+    ({ identifier }) => identifier,
+  );
+}
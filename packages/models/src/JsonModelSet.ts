@@ -0,0 +1,172 @@
+import { NamedNode } from "@rdfjs/types";
+import { Either, Left, Maybe } from "purify-ts";
+import { ModelSet } from "./ModelSet.js";
+import { AdministrativeArea, Organization, Person } from "./generated.js";
+import { queryPeople } from "./peopleQuery.js";
+
+/**
+ * A ModelSet over models deserialized from the JSON form of the generated classes (toJson/fromJson).
+ *
+ * Use JsonModelSet.fromJson to validate and load a JsonModelSet.Json document and JsonModelSet.dump to produce one from any ModelSet.
+ */
+export class JsonModelSet implements ModelSet {
+  private readonly administrativeAreasArray: readonly AdministrativeArea[];
+  private readonly organizationsArray: readonly Organization[];
+  private readonly peopleArray: readonly Person[];
+
+  constructor({
+    administrativeAreas,
+    organizations,
+    people,
+  }: {
+    administrativeAreas?: readonly AdministrativeArea[];
+    organizations: readonly Organization[];
+    people: readonly Person[];
+  }) {
+    this.administrativeAreasArray = administrativeAreas ?? [];
+    this.organizationsArray = organizations;
+    this.peopleArray = people;
+  }
+
+  async administrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<AdministrativeArea>>> {
+    return Either.of(
+      Maybe.fromNullable(
+        this.administrativeAreasArray.find((administrativeArea) =>
+          administrativeArea.identifier.equals(identifier),
+        ),
+      ),
+    );
+  }
+
+  async administrativeAreas(): Promise<
+    Either<Error, readonly AdministrativeArea[]>
+  > {
+    return Either.of(this.administrativeAreasArray);
+  }
+
+  async organization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<Organization>>> {
+    return Either.of(
+      Maybe.fromNullable(
+        this.organizationsArray.find((organization) =>
+          organization.identifier.equals(identifier),
+        ),
+      ),
+    );
+  }
+
+  async organizations(): Promise<Either<Error, readonly Organization[]>> {
+    return Either.of(this.organizationsArray);
+  }
+
+  async people(
+    query?: ModelSet.PeopleQuery,
+  ): Promise<Either<Error, readonly Person[]>> {
+    return Either.of(queryPeople(this.peopleArray, query));
+  }
+
+  async person(identifier: NamedNode): Promise<Either<Error, Maybe<Person>>> {
+    return Either.of(
+      Maybe.fromNullable(
+        this.peopleArray.find((person) => person.identifier.equals(identifier)),
+      ),
+    );
+  }
+}
+
+export namespace JsonModelSet {
+  export interface Json {
+    readonly administrativeAreas: readonly ReturnType<
+      AdministrativeArea["toJson"]
+    >[];
+    readonly organizations: readonly ReturnType<Organization["toJson"]>[];
+    readonly people: readonly ReturnType<Person["toJson"]>[];
+  }
+
+  /**
+   * Serialize all of the models in a ModelSet to a Json document.
+   */
+  export async function dump(modelSet: ModelSet): Promise<Either<Error, Json>> {
+    const administrativeAreasEither = await modelSet.administrativeAreas();
+    if (administrativeAreasEither.isLeft()) {
+      return administrativeAreasEither;
+    }
+    const organizationsEither = await modelSet.organizations();
+    if (organizationsEither.isLeft()) {
+      return organizationsEither;
+    }
+    const peopleEither = await modelSet.people();
+    if (peopleEither.isLeft()) {
+      return peopleEither;
+    }
+    return Either.of({
+      administrativeAreas: administrativeAreasEither
+        .unsafeCoerce()
+        .map((administrativeArea) => administrativeArea.toJson()),
+      organizations: organizationsEither
+        .unsafeCoerce()
+        .map((organization) => organization.toJson()),
+      people: peopleEither.unsafeCoerce().map((person) => person.toJson()),
+    });
+  }
+
+  /**
+   * Validate a Json document and load it into a JsonModelSet.
+   */
+  export function fromJson(json: unknown): Either<Error, JsonModelSet> {
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      return Left(new Error("expected a JSON object"));
+    }
+
+    const jsonObject = json as Record<string, unknown>;
+    return modelsFromJson({
+      fromJson: AdministrativeArea.fromJson,
+      json: jsonObject["administrativeAreas"],
+      key: "administrativeAreas",
+    }).chain((administrativeAreas) =>
+      modelsFromJson({
+        fromJson: Organization.fromJson,
+        json: jsonObject["organizations"],
+        key: "organizations",
+      }).chain((organizations) =>
+        modelsFromJson({
+          fromJson: Person.fromJson,
+          json: jsonObject["people"],
+          key: "people",
+        }).map(
+          (people) =>
+            new JsonModelSet({ administrativeAreas, organizations, people }),
+        ),
+      ),
+    );
+  }
+}
+
+function modelsFromJson<ModelT>({
+  fromJson,
+  json,
+  key,
+}: {
+  fromJson: (json: unknown) => Either<Error, ModelT>;
+  json: unknown;
+  key: keyof JsonModelSet.Json;
+}): Either<Error, readonly ModelT[]> {
+  if (typeof json === "undefined") {
+    return Either.of([]);
+  }
+  if (!Array.isArray(json)) {
+    return Left(new Error(`expected ${key} to be a JSON array`));
+  }
+  const models: ModelT[] = [];
+  for (const modelJson of json) {
+    const modelEither = fromJson(modelJson);
+    if (modelEither.isLeft()) {
+      return modelEither;
+    }
+    models.push(modelEither.unsafeCoerce());
+  }
+  return Either.of(models);
+}
@@ -1,6 +1,86 @@
-import type { Either } from "purify-ts";
-import type { Person } from "./index.js";
+import type { NamedNode } from "@rdfjs/types";
+import type { Either, Maybe } from "purify-ts";
+import type { AdministrativeArea, Organization, Person } from "./generated.js";
 
 export interface ModelSet {
-  people(): Promise<Either<Error, readonly Person[]>>;
+  administrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<AdministrativeArea>>>;
+  administrativeAreas(): Promise<Either<Error, readonly AdministrativeArea[]>>;
+  organization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<Organization>>>;
+  organizations(): Promise<Either<Error, readonly Organization[]>>;
+  people(
+    query?: ModelSet.PeopleQuery,
+  ): Promise<Either<Error, readonly Person[]>>;
+  person(identifier: NamedNode): Promise<Either<Error, Maybe<Person>>>;
+}
+
+export namespace ModelSet {
+  /**
+   * An inclusive date range. A missing bound leaves that side of the range open.
+   */
+  export interface DateRange {
+    readonly end?: Date;
+    readonly start?: Date;
+  }
+
+  /**
+   * Filters, sort order, and pagination for ModelSet.people.
+   *
+   * All filters must match for a Person to be included.
+   */
+  export interface PeopleQuery {
+    /**
+     * Only include people whose birthDate is in the range. People without a birthDate are excluded.
+     */
+    readonly birthDate?: DateRange;
+    readonly gender?: NamedNode;
+    /**
+     * Only include people with at least one Role in hasOccupation that matches all of the specified properties.
+     *
+     * An Occupation that isn't a Role only matches if no Role properties other than date and name are specified.
+     */
+    readonly hasOccupation?: {
+      readonly chamber?: NamedNode;
+      /**
+       * The committee of a committee membership Role.
+       */
+      readonly committee?: NamedNode;
+      /**
+       * The AdministrativeArea the Role represents, e.g., a state or a congressional district.
+       */
+      readonly constituency?: NamedNode;
+      /**
+       * The Role's startDate-endDate interval must overlap the range. Missing Role dates are treated as open.
+       */
+      readonly date?: DateRange;
+      readonly district?: number;
+      /**
+       * Exact name of the Role, e.g., a leadership title such as "Majority Leader".
+       */
+      readonly name?: string;
+      readonly party?: NamedNode;
+      readonly roleName?: NamedNode;
+      /**
+       * Two-letter postal code, e.g., "NY".
+       */
+      readonly state?: string;
+    };
+    readonly limit?: number;
+    readonly memberOf?: NamedNode;
+    /**
+     * Case-insensitive substring of name, givenName, or familyName.
+     */
+    readonly name?: string;
+    readonly offset?: number;
+    /**
+     * Defaults to the underlying order of the ModelSet. People missing the property sort last. Identifiers are compared by code point.
+     */
+    readonly orderBy?: {
+      readonly direction?: "ascending" | "descending";
+      readonly property: "birthDate" | "familyName" | "identifier" | "name";
+    };
+  }
 }
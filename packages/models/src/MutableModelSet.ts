@@ -0,0 +1,27 @@
+import type { NamedNode } from "@rdfjs/types";
+import type { Either } from "purify-ts";
+import type { ModelSet } from "./ModelSet.js";
+import type { AdministrativeArea, Organization, Person } from "./generated.js";
+
+/**
+ * A ModelSet that can be modified.
+ *
+ * Implementations keep inverse links consistent: Person.memberOf with Organization.members, Organization.parentOrganizations with Organization.subOrganizations, and Place.containedInPlace with Place.containsPlace. For example, adding a Person that's memberOf an Organization also makes the Person one of the Organization's members. Organization.members may include Organizations, which have no memberOf to link back.
+ *
+ * add* methods fail if the model already exists. update* and delete* methods fail if it doesn't.
+ */
+export interface MutableModelSet extends ModelSet {
+  addAdministrativeArea(
+    administrativeArea: AdministrativeArea,
+  ): Promise<Either<Error, void>>;
+  addOrganization(organization: Organization): Promise<Either<Error, void>>;
+  addPerson(person: Person): Promise<Either<Error, void>>;
+  deleteAdministrativeArea(identifier: NamedNode): Promise<Either<Error, void>>;
+  deleteOrganization(identifier: NamedNode): Promise<Either<Error, void>>;
+  deletePerson(identifier: NamedNode): Promise<Either<Error, void>>;
+  updateAdministrativeArea(
+    administrativeArea: AdministrativeArea,
+  ): Promise<Either<Error, void>>;
+  updateOrganization(organization: Organization): Promise<Either<Error, void>>;
+  updatePerson(person: Person): Promise<Either<Error, void>>;
+}
@@ -0,0 +1,283 @@
+import {
+  DataFactory,
+  DatasetCore,
+  NamedNode,
+  Quad_Object,
+  Quad_Predicate,
+  Quad_Subject,
+} from "@rdfjs/types";
+import N3 from "n3";
+import { Either, Left } from "purify-ts";
+import { MutableResourceSet } from "rdfjs-resource";
+import { MutableModelSet } from "./MutableModelSet.js";
+import { RdfjsDatasetModelSet } from "./RdfjsDatasetModelSet.js";
+import { AdministrativeArea, Organization, Person } from "./generated.js";
+import { schema } from "./schema.js";
+
+/**
+ * A MutableModelSet that reads and writes an RDF/JS dataset.
+ */
+export class MutableRdfjsDatasetModelSet
+  extends RdfjsDatasetModelSet
+  implements MutableModelSet
+{
+  private readonly dataFactory: DataFactory;
+  private readonly dataset: DatasetCore;
+  private readonly mutableResourceSet: MutableResourceSet;
+
+  constructor({
+    dataFactory,
+    dataset,
+    lenient,
+  }: {
+    dataFactory?: DataFactory;
+    dataset: DatasetCore;
+    lenient?: boolean;
+  }) {
+    super({ dataset, lenient });
+    this.dataFactory = dataFactory ?? N3.DataFactory;
+    this.dataset = dataset;
+    this.mutableResourceSet = new MutableResourceSet({
+      dataFactory: this.dataFactory,
+      dataset,
+    });
+  }
+
+  async addAdministrativeArea(
+    administrativeArea: AdministrativeArea,
+  ): Promise<Either<Error, void>> {
+    return this.addAdministrativeAreaSync(administrativeArea);
+  }
+
+  addAdministrativeAreaSync(
+    administrativeArea: AdministrativeArea,
+  ): Either<Error, void> {
+    if (
+      this.isInstanceOf(
+        administrativeArea.identifier,
+        AdministrativeArea.fromRdfType,
+      )
+    ) {
+      return Left(alreadyExistsError(administrativeArea.identifier));
+    }
+    administrativeArea.toRdf({ resourceSet: this.mutableResourceSet });
+    administrativeArea.containedInPlace.ifJust((containedInPlace) =>
+      this.addQuad(
+        containedInPlace,
+        schema.containsPlace,
+        administrativeArea.identifier,
+      ),
+    );
+    for (const containsPlace of administrativeArea.containsPlace) {
+      this.addQuad(
+        containsPlace,
+        schema.containedInPlace,
+        administrativeArea.identifier,
+      );
+    }
+    return Either.of(undefined);
+  }
+
+  async addOrganization(
+    organization: Organization,
+  ): Promise<Either<Error, void>> {
+    return this.addOrganizationSync(organization);
+  }
+
+  addOrganizationSync(organization: Organization): Either<Error, void> {
+    if (this.isInstanceOf(organization.identifier, Organization.fromRdfType)) {
+      return Left(alreadyExistsError(organization.identifier));
+    }
+    organization.toRdf({ resourceSet: this.mutableResourceSet });
+    for (const member of organization.members) {
+      // Only a Person has memberOf. An Organization member, or a Person that hasn't been added yet, isn't linked back.
+      if (this.isInstanceOf(member, Person.fromRdfType)) {
+        this.addQuad(member, schema.memberOf, organization.identifier);
+      }
+    }
+    for (const parentOrganization of organization.parentOrganizations) {
+      this.addQuad(
+        parentOrganization,
+        schema.subOrganization,
+        organization.identifier,
+      );
+    }
+    for (const subOrganization of organization.subOrganizations) {
+      this.addQuad(
+        subOrganization,
+        schema.parentOrganization,
+        organization.identifier,
+      );
+    }
+    return Either.of(undefined);
+  }
+
+  async addPerson(person: Person): Promise<Either<Error, void>> {
+    return this.addPersonSync(person);
+  }
+
+  addPersonSync(person: Person): Either<Error, void> {
+    if (this.isInstanceOf(person.identifier, Person.fromRdfType)) {
+      return Left(alreadyExistsError(person.identifier));
+    }
+    person.toRdf({ resourceSet: this.mutableResourceSet });
+    for (const organization of person.memberOf) {
+      this.addQuad(organization, schema.member, person.identifier);
+    }
+    return Either.of(undefined);
+  }
+
+  async deleteAdministrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, void>> {
+    return this.deleteAdministrativeAreaSync(identifier);
+  }
+
+  deleteAdministrativeAreaSync(identifier: NamedNode): Either<Error, void> {
+    if (!this.isInstanceOf(identifier, AdministrativeArea.fromRdfType)) {
+      return Left(doesNotExistError(identifier));
+    }
+    this.deleteResource(identifier);
+    for (const inversePredicate of [
+      schema.containedInPlace,
+      schema.containsPlace,
+    ]) {
+      this.deleteQuads(null, inversePredicate, identifier);
+    }
+    return Either.of(undefined);
+  }
+
+  async deleteOrganization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, void>> {
+    return this.deleteOrganizationSync(identifier);
+  }
+
+  deleteOrganizationSync(identifier: NamedNode): Either<Error, void> {
+    if (!this.isInstanceOf(identifier, Organization.fromRdfType)) {
+      return Left(doesNotExistError(identifier));
+    }
+    this.deleteResource(identifier);
+    for (const inversePredicate of [
+      schema.memberOf,
+      schema.parentOrganization,
+      schema.subOrganization,
+    ]) {
+      this.deleteQuads(null, inversePredicate, identifier);
+    }
+    return Either.of(undefined);
+  }
+
+  async deletePerson(identifier: NamedNode): Promise<Either<Error, void>> {
+    return this.deletePersonSync(identifier);
+  }
+
+  deletePersonSync(identifier: NamedNode): Either<Error, void> {
+    if (!this.isInstanceOf(identifier, Person.fromRdfType)) {
+      return Left(doesNotExistError(identifier));
+    }
+    this.deleteResource(identifier);
+    this.deleteQuads(null, schema.member, identifier);
+    return Either.of(undefined);
+  }
+
+  async updateAdministrativeArea(
+    administrativeArea: AdministrativeArea,
+  ): Promise<Either<Error, void>> {
+    return this.updateAdministrativeAreaSync(administrativeArea);
+  }
+
+  updateAdministrativeAreaSync(
+    administrativeArea: AdministrativeArea,
+  ): Either<Error, void> {
+    return this.deleteAdministrativeAreaSync(
+      administrativeArea.identifier,
+    ).chain(() => this.addAdministrativeAreaSync(administrativeArea));
+  }
+
+  async updateOrganization(
+    organization: Organization,
+  ): Promise<Either<Error, void>> {
+    return this.updateOrganizationSync(organization);
+  }
+
+  updateOrganizationSync(organization: Organization): Either<Error, void> {
+    return this.deleteOrganizationSync(organization.identifier).chain(() =>
+      this.addOrganizationSync(organization),
+    );
+  }
+
+  async updatePerson(person: Person): Promise<Either<Error, void>> {
+    return this.updatePersonSync(person);
+  }
+
+  updatePersonSync(person: Person): Either<Error, void> {
+    return this.deletePersonSync(person.identifier).chain(() =>
+      this.addPersonSync(person),
+    );
+  }
+
+  private addQuad(
+    subject: Quad_Subject,
+    predicate: Quad_Predicate,
+    object: Quad_Object,
+  ): void {
+    this.dataset.add(this.dataFactory.quad(subject, predicate, object));
+  }
+
+  private deleteQuads(
+    subject: Quad_Subject | null,
+    predicate: Quad_Predicate | null,
+    object: Quad_Object | null,
+  ): void {
+    for (const quad of [...this.dataset.match(subject, predicate, object)]) {
+      this.dataset.delete(quad);
+    }
+  }
+
+  /**
+   * Delete the statements about a resource, as well as nested resources (e.g., a Person's Roles and ImageObjects) that are no longer referenced by anything else.
+   */
+  private deleteResource(identifier: Quad_Subject): void {
+    const quads = [...this.dataset.match(identifier, null, null)];
+    for (const quad of quads) {
+      this.dataset.delete(quad);
+    }
+    for (const quad of quads) {
+      if (
+        (quad.object.termType === "BlankNode" ||
+          quad.object.termType === "NamedNode") &&
+        nestedResourcePredicates.some((predicate) =>
+          predicate.equals(quad.predicate),
+        ) &&
+        this.dataset.match(null, null, quad.object).size === 0
+      ) {
+        this.deleteResource(quad.object);
+      }
+    }
+  }
+
+  private isInstanceOf(identifier: NamedNode, rdfType: NamedNode): boolean {
+    return this.resourceSet.namedResource(identifier).isInstanceOf(rdfType);
+  }
+}
+
+/**
+ * Predicates whose objects are serialized along with their subject by the generated toRdf methods.
+ */
+const nestedResourcePredicates: readonly NamedNode[] = [
+  schema.address,
+  schema.contactPoint,
+  schema.hasOccupation,
+  schema.height,
+  schema.image,
+  schema.width,
+];
+
+function alreadyExistsError(identifier: NamedNode): Error {
+  return new Error(`${identifier.value} already exists`);
+}
+
+function doesNotExistError(identifier: NamedNode): Error {
+  return new Error(`${identifier.value} does not exist`);
+}
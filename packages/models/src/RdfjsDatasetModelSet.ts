@@ -1,51 +1,441 @@
-import { DatasetCore, NamedNode } from "@rdfjs/types";
-import { Either } from "purify-ts";
+import { DatasetCore, NamedNode, Quad, Quad_Graph, Term } from "@rdfjs/types";
+import { Either, Maybe } from "purify-ts";
 import { Resource, ResourceSet } from "rdfjs-resource";
 import { ModelSet } from "./ModelSet.js";
-import { Person } from "./index.js";
+import { AdministrativeArea, Organization, Person } from "./generated.js";
+import {
+  type PeopleQueryPerson,
+  comparePeople,
+  personMatchesQuery,
+} from "./peopleQuery.js";
+import { prosopa } from "./prosopa.js";
+import { schema } from "./schema.js";
 
 export class RdfjsDatasetModelSet implements ModelSet {
+  private readonly lenient: boolean;
   readonly resourceSet: ResourceSet;
 
+  /**
+   * @param graphs if specified, only read quads in the graphs that pass the filter, e.g., to load or exclude named graphs that partition a dataset
+   * @param lenient if true, administrativeAreas(), organizations(), and people() skip resources that can't be deserialized instead of failing; the *WithDiagnosticsSync methods report the skipped resources
+   */
   constructor({
     dataset,
+    graphs,
+    lenient,
   }: {
     dataset: DatasetCore;
+    graphs?: RdfjsDatasetModelSet.GraphFilter;
+    lenient?: boolean;
   }) {
+    this.lenient = !!lenient;
     this.resourceSet = new ResourceSet({
-      dataset,
+      dataset: graphs ? new GraphFilteredDataset({ dataset, graphs }) : dataset,
     });
   }
 
-  async people(): Promise<Either<Error, readonly Person[]>> {
-    return this.peopleSync();
+  async administrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<AdministrativeArea>>> {
+    return this.administrativeAreaSync(identifier);
   }
 
-  peopleSync(): Either<Error, readonly Person[]> {
+  administrativeAreaSync(
+    identifier: NamedNode,
+  ): Either<Error, Maybe<AdministrativeArea>> {
+    return this.modelByIdentifierSync({
+      identifier,
+      modelFromRdf: AdministrativeArea.fromRdf,
+      rdfType: AdministrativeArea.fromRdfType,
+    });
+  }
+
+  async administrativeAreas(): Promise<
+    Either<Error, readonly AdministrativeArea[]>
+  > {
+    return this.administrativeAreasSync();
+  }
+
+  administrativeAreasSync(): Either<Error, readonly AdministrativeArea[]> {
+    return this.modelsByRdfTypeSync({
+      lenient: this.lenient,
+      modelFromRdf: AdministrativeArea.fromRdf,
+      rdfType: AdministrativeArea.fromRdfType,
+    }).map(({ models }) => models);
+  }
+
+  administrativeAreasWithDiagnosticsSync(): RdfjsDatasetModelSet.ModelsWithDiagnostics<AdministrativeArea> {
+    return this.modelsByRdfTypeSync({
+      lenient: true,
+      modelFromRdf: AdministrativeArea.fromRdf,
+      rdfType: AdministrativeArea.fromRdfType,
+    }).unsafeCoerce();
+  }
+
+  async organization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<Organization>>> {
+    return this.organizationSync(identifier);
+  }
+
+  organizationSync(identifier: NamedNode): Either<Error, Maybe<Organization>> {
+    return this.modelByIdentifierSync({
+      identifier,
+      modelFromRdf: Organization.fromRdf,
+      rdfType: Organization.fromRdfType,
+    });
+  }
+
+  async organizations(): Promise<Either<Error, readonly Organization[]>> {
+    return this.organizationsSync();
+  }
+
+  organizationsSync(): Either<Error, readonly Organization[]> {
+    return this.modelsByRdfTypeSync({
+      lenient: this.lenient,
+      modelFromRdf: Organization.fromRdf,
+      rdfType: Organization.fromRdfType,
+    }).map(({ models }) => models);
+  }
+
+  organizationsWithDiagnosticsSync(): RdfjsDatasetModelSet.ModelsWithDiagnostics<Organization> {
     return this.modelsByRdfTypeSync({
+      lenient: true,
+      modelFromRdf: Organization.fromRdf,
+      rdfType: Organization.fromRdfType,
+    }).unsafeCoerce();
+  }
+
+  async people(
+    query?: ModelSet.PeopleQuery,
+  ): Promise<Either<Error, readonly Person[]>> {
+    return this.peopleSync(query);
+  }
+
+  peopleSync(query?: ModelSet.PeopleQuery): Either<Error, readonly Person[]> {
+    return this.modelsByRdfTypeSync({
+      ...peopleByRdfTypeParameters(query),
+      lenient: this.lenient,
+    }).map(({ models }) => models);
+  }
+
+  peopleWithDiagnosticsSync(
+    query?: ModelSet.PeopleQuery,
+  ): RdfjsDatasetModelSet.ModelsWithDiagnostics<Person> {
+    return this.modelsByRdfTypeSync({
+      ...peopleByRdfTypeParameters(query),
+      lenient: true,
+    }).unsafeCoerce();
+  }
+
+  async person(identifier: NamedNode): Promise<Either<Error, Maybe<Person>>> {
+    return this.personSync(identifier);
+  }
+
+  personSync(identifier: NamedNode): Either<Error, Maybe<Person>> {
+    return this.modelByIdentifierSync({
+      identifier,
       modelFromRdf: Person.fromRdf,
       rdfType: Person.fromRdfType,
     });
   }
 
+  private modelByIdentifierSync<ModelT>({
+    identifier,
+    modelFromRdf,
+    rdfType,
+  }: {
+    identifier: NamedNode;
+    modelFromRdf: (parameters: { resource: Resource<NamedNode> }) => Either<
+      Error,
+      ModelT
+    >;
+    rdfType: NamedNode;
+  }): Either<Error, Maybe<ModelT>> {
+    const resource = this.resourceSet.namedResource(identifier);
+    if (!resource.isInstanceOf(rdfType)) {
+      return Either.of(Maybe.empty());
+    }
+    return modelFromRdf({ resource }).map((model) => Maybe.of(model));
+  }
+
+  /**
+   * Filter, sort, and paginate the instances of rdfType at the Resource level, then only deserialize the resulting page.
+   *
+   * If lenient is true, resources that can't be deserialized are reported as diagnostics and left out of the page rather than causing a Left.
+   */
   private modelsByRdfTypeSync<ModelT>({
+    compareResources,
+    filterResource,
+    lenient,
+    limit,
     modelFromRdf,
+    offset,
     rdfType,
   }: {
+    compareResources?: (
+      left: Resource<NamedNode>,
+      right: Resource<NamedNode>,
+    ) => number;
+    filterResource?: (resource: Resource<NamedNode>) => boolean;
+    lenient: boolean;
+    limit?: number;
     modelFromRdf: (parameters: { resource: Resource<NamedNode> }) => Either<
       Error,
       ModelT
     >;
+    offset?: number;
     rdfType: NamedNode;
-  }): Either<Error, readonly ModelT[]> {
-    const models: ModelT[] = [];
+  }): Either<Error, RdfjsDatasetModelSet.ModelsWithDiagnostics<ModelT>> {
+    const end =
+      typeof limit !== "undefined" ? (offset ?? 0) + limit : undefined;
+    let resources: Resource<NamedNode>[] = [];
     for (const resource of this.resourceSet.namedInstancesOf(rdfType)) {
+      if (filterResource && !filterResource(resource)) {
+        continue;
+      }
+      resources.push(resource);
+      if (
+        !compareResources &&
+        typeof end !== "undefined" &&
+        resources.length >= end
+      ) {
+        // Without sorting the page can't change after this point
+        break;
+      }
+    }
+    if (compareResources) {
+      resources.sort(compareResources);
+    }
+    resources = resources.slice(offset ?? 0, end);
+
+    const diagnostics: RdfjsDatasetModelSet.Diagnostic[] = [];
+    const models: ModelT[] = [];
+    for (const resource of resources) {
       const modelEither = modelFromRdf({ resource });
       if (modelEither.isLeft()) {
-        return modelEither;
+        if (!lenient) {
+          return modelEither;
+        }
+        diagnostics.push({
+          error: modelEither.extract(),
+          identifier: resource.identifier,
+        });
+        continue;
       }
       models.push(modelEither.unsafeCoerce());
     }
-    return Either.of(models);
+    return Either.of({ diagnostics, models });
+  }
+}
+
+export namespace RdfjsDatasetModelSet {
+  /**
+   * A resource that was skipped because it couldn't be deserialized.
+   */
+  export interface Diagnostic {
+    readonly error: Error;
+    readonly identifier: NamedNode;
+  }
+
+  /**
+   * Graphs to read. A quad is read if its graph is in include (or include is unspecified) and not in exclude. Use the default graph to refer to quads that aren't in a named graph.
+   */
+  export interface GraphFilter {
+    readonly exclude?: readonly Quad_Graph[];
+    readonly include?: readonly Quad_Graph[];
+  }
+
+  export interface ModelsWithDiagnostics<ModelT> {
+    readonly diagnostics: readonly Diagnostic[];
+    readonly models: readonly ModelT[];
+  }
+}
+
+/**
+ * A read-only view of the quads of a dataset that are in the graphs that pass a GraphFilter.
+ */
+class GraphFilteredDataset implements DatasetCore {
+  private readonly dataset: DatasetCore;
+  private readonly graphs: RdfjsDatasetModelSet.GraphFilter;
+
+  constructor({
+    dataset,
+    graphs,
+  }: {
+    dataset: DatasetCore;
+    graphs: RdfjsDatasetModelSet.GraphFilter;
+  }) {
+    this.dataset = dataset;
+    this.graphs = graphs;
+  }
+
+  get size(): number {
+    let size = 0;
+    for (const _ of this) {
+      size++;
+    }
+    return size;
+  }
+
+  [Symbol.iterator](): Iterator<Quad> {
+    return this.quads();
+  }
+
+  add(): this {
+    throw new Error("GraphFilteredDataset is read-only");
+  }
+
+  delete(): this {
+    throw new Error("GraphFilteredDataset is read-only");
+  }
+
+  has(quad: Quad): boolean {
+    return this.includesGraph(quad.graph) && this.dataset.has(quad);
+  }
+
+  match(
+    subject?: Term | null,
+    predicate?: Term | null,
+    object?: Term | null,
+    graph?: Term | null,
+  ): DatasetCore {
+    return new GraphFilteredDataset({
+      dataset: this.dataset.match(subject, predicate, object, graph),
+      graphs: this.graphs,
+    });
+  }
+
+  private includesGraph(graph: Quad_Graph): boolean {
+    const { exclude, include } = this.graphs;
+    return (
+      (!include || include.some((term) => term.equals(graph))) &&
+      !exclude?.some((term) => term.equals(graph))
+    );
+  }
+
+  private *quads(): Generator<Quad> {
+    for (const quad of this.dataset) {
+      if (this.includesGraph(quad.graph)) {
+        yield quad;
+      }
+    }
+  }
+}
+
+/**
+ * The first value of a property, as deserialized by a model's fromRdf.
+ */
+function headValue<T>(
+  resource: Resource,
+  predicate: NamedNode,
+  convert: (value: Resource.Value) => Either<Error, T>,
+): Maybe<T> {
+  return resource.values(predicate).head().chain(convert).toMaybe();
+}
+
+function peopleByRdfTypeParameters(query: ModelSet.PeopleQuery | undefined) {
+  const orderBy = query?.orderBy;
+  return {
+    compareResources: orderBy
+      ? (left: Resource<NamedNode>, right: Resource<NamedNode>) =>
+          comparePeople(
+            new PersonResource(left),
+            new PersonResource(right),
+            orderBy,
+          )
+      : undefined,
+    filterResource: query
+      ? (resource: Resource<NamedNode>) =>
+          personMatchesQuery(new PersonResource(resource), query)
+      : undefined,
+    limit: query?.limit,
+    modelFromRdf: Person.fromRdf,
+    offset: query?.offset,
+    rdfType: Person.fromRdfType,
+  };
+}
+
+/**
+ * The values of a Person resource that a ModelSet.PeopleQuery filters and sorts on, read as Person.fromRdf would read them without deserializing the whole Person.
+ */
+class PersonResource implements PeopleQueryPerson {
+  constructor(private readonly resource: Resource<NamedNode>) {}
+
+  get birthDate(): Maybe<Date> {
+    return headValue(this.resource, schema.birthDate, (value) =>
+      value.toDate(),
+    );
+  }
+
+  get familyName(): Maybe<string> {
+    return headValue(this.resource, schema.familyName, (value) =>
+      value.toString(),
+    );
+  }
+
+  get gender(): Maybe<Term> {
+    return headValue(this.resource, schema.gender, (value) =>
+      Either.of(value.toTerm()),
+    );
+  }
+
+  get givenName(): Maybe<string> {
+    return headValue(this.resource, schema.givenName, (value) =>
+      value.toString(),
+    );
+  }
+
+  get hasOccupation(): readonly PeopleQueryPerson.Occupation[] {
+    // Person.fromRdf deserializes every occupation it can as a Role
+    return this.resource
+      .values(schema.hasOccupation)
+      .toArray()
+      .flatMap((value) =>
+        value
+          .toResource()
+          .map((role) => {
+            const iri = (predicate: NamedNode) =>
+              headValue(role, predicate, (value) => value.toIri());
+            return {
+              chamber: iri(prosopa.chamber),
+              committee: iri(prosopa.committee),
+              constituency: iri(prosopa.constituency),
+              district: headValue(role, prosopa.district, (value) =>
+                value.toNumber(),
+              ),
+              endDate: headValue(role, schema.endDate, (value) =>
+                value.toDate(),
+              ),
+              name: headValue(role, schema.name, (value) => value.toString()),
+              party: iri(prosopa.party),
+              roleName: iri(schema.roleName),
+              startDate: headValue(role, schema.startDate, (value) =>
+                value.toDate(),
+              ),
+              state: headValue(role, prosopa.state, (value) =>
+                value.toString(),
+              ),
+              type: "Role" as const,
+            };
+          })
+          .toMaybe()
+          .toList(),
+      );
+  }
+
+  get identifier(): NamedNode {
+    return this.resource.identifier;
+  }
+
+  get memberOf(): readonly NamedNode[] {
+    return this.resource
+      .values(schema.memberOf)
+      .toArray()
+      .flatMap((value) => value.toIri().toMaybe().toList());
+  }
+
+  get name(): Maybe<string> {
+    return headValue(this.resource, schema.name, (value) => value.toString());
   }
 }
@@ -0,0 +1,350 @@
+import { NamedNode } from "@rdfjs/types";
+import N3 from "n3";
+import { Either, Left, Maybe } from "purify-ts";
+import { ModelSet } from "./ModelSet.js";
+import { RdfjsDatasetModelSet } from "./RdfjsDatasetModelSet.js";
+import { AdministrativeArea, Organization, Person } from "./generated.js";
+import { compareIdentifiers, compareSortKeys } from "./peopleQuery.js";
+import { schema } from "./schema.js";
+
+/**
+ * A ModelSet backed by a SPARQL endpoint.
+ *
+ * Each method CONSTRUCTs the subgraph describing the requested models (including nested resources such as a Person's Roles and ImageObjects) and deserializes it with an RdfjsDatasetModelSet.
+ *
+ * people() evaluates the gender, memberOf, and name filters on the endpoint. The birthDate and hasOccupation filters and non-identifier sort orders are evaluated client-side, which means CONSTRUCTing every Person that passes the other filters, so limit and offset are only pushed to the endpoint when the query has none of them.
+ *
+ * The order of a Person's hasOccupation isn't preserved by the endpoint, so it's sorted by startDate, with Occupations and Roles without a startDate last.
+ */
+export class SparqlModelSet implements ModelSet {
+  private readonly endpointUrl: string;
+  private readonly fetch: typeof globalThis.fetch;
+
+  constructor({
+    endpointUrl,
+    fetch,
+  }: {
+    endpointUrl: string | URL;
+    fetch?: typeof globalThis.fetch;
+  }) {
+    this.endpointUrl = endpointUrl.toString();
+    this.fetch = fetch ?? globalThis.fetch;
+  }
+
+  async administrativeArea(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<AdministrativeArea>>> {
+    return (
+      await this.construct(
+        constructQuery({
+          identifier,
+          rdfType: AdministrativeArea.fromRdfType,
+        }),
+      )
+    ).chain((modelSet) => modelSet.administrativeAreaSync(identifier));
+  }
+
+  async administrativeAreas(): Promise<
+    Either<Error, readonly AdministrativeArea[]>
+  > {
+    return (
+      await this.construct(
+        constructQuery({
+          rdfType: AdministrativeArea.fromRdfType,
+        }),
+      )
+    )
+      .chain((modelSet) => modelSet.administrativeAreasSync())
+      .map(sortByIdentifier);
+  }
+
+  async organization(
+    identifier: NamedNode,
+  ): Promise<Either<Error, Maybe<Organization>>> {
+    return (
+      await this.construct(
+        constructQuery({
+          identifier,
+          nestedPredicates: organizationNestedPredicates,
+          rdfType: Organization.fromRdfType,
+        }),
+      )
+    ).chain((modelSet) => modelSet.organizationSync(identifier));
+  }
+
+  async organizations(): Promise<Either<Error, readonly Organization[]>> {
+    return (
+      await this.construct(
+        constructQuery({
+          nestedPredicates: organizationNestedPredicates,
+          rdfType: Organization.fromRdfType,
+        }),
+      )
+    )
+      .chain((modelSet) => modelSet.organizationsSync())
+      .map(sortByIdentifier);
+  }
+
+  async people(
+    query?: ModelSet.PeopleQuery,
+  ): Promise<Either<Error, readonly Person[]>> {
+    // SPARQL results have no inherent order
+    const orderBy = query?.orderBy ?? { property: "identifier" };
+    if (
+      query &&
+      !query.birthDate &&
+      !query.hasOccupation &&
+      orderBy.property === "identifier"
+    ) {
+      // Every filter and the sort order can be evaluated on the endpoint, so only CONSTRUCT the requested page
+      const { limit, offset, ...pageQuery } = query;
+      return (
+        await this.construct(
+          constructQuery({
+            modelPatterns: personQueryPatterns(query),
+            nestedPredicates: personNestedPredicates,
+            page: {
+              descending: orderBy.direction === "descending",
+              limit,
+              offset,
+            },
+            rdfType: Person.fromRdfType,
+          }),
+        )
+      )
+        .chain((modelSet) => modelSet.peopleSync({ ...pageQuery, orderBy }))
+        .map((people) => people.map(sortHasOccupation));
+    }
+
+    return (
+      await this.construct(
+        constructQuery({
+          modelPatterns: query ? personQueryPatterns(query) : undefined,
+          nestedPredicates: personNestedPredicates,
+          rdfType: Person.fromRdfType,
+        }),
+      )
+    )
+      .chain((modelSet) => modelSet.peopleSync({ ...query, orderBy }))
+      .map((people) => people.map(sortHasOccupation));
+  }
+
+  async person(identifier: NamedNode): Promise<Either<Error, Maybe<Person>>> {
+    return (
+      await this.construct(
+        constructQuery({
+          identifier,
+          nestedPredicates: personNestedPredicates,
+          rdfType: Person.fromRdfType,
+        }),
+      )
+    )
+      .chain((modelSet) => modelSet.personSync(identifier))
+      .map((person) => person.map(sortHasOccupation));
+  }
+
+  private async construct(
+    query: string,
+  ): Promise<Either<Error, RdfjsDatasetModelSet>> {
+    let responseText: string;
+    try {
+      const response = await this.fetch(this.endpointUrl, {
+        body: query,
+        headers: {
+          accept: "application/n-triples, text/turtle",
+          "content-type": "application/sparql-query",
+        },
+        method: "POST",
+      });
+      if (!response.ok) {
+        return Left(
+          new Error(
+            `SPARQL endpoint ${this.endpointUrl} returned ${response.status} ${response.statusText}`,
+          ),
+        );
+      }
+      responseText = await response.text();
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+
+    const dataset = new N3.Store();
+    try {
+      // The order of CONSTRUCT results is arbitrary. Sort the quads so that multi-valued properties are deserialized in a stable order.
+      dataset.addQuads(
+        new N3.Parser()
+          .parse(responseText)
+          .sort(
+            (left, right) =>
+              left.subject.value.localeCompare(right.subject.value) ||
+              left.predicate.value.localeCompare(right.predicate.value) ||
+              left.object.value.localeCompare(right.object.value),
+          ),
+      );
+    } catch (e) {
+      return Left(e instanceof Error ? e : new Error(String(e)));
+    }
+    return Either.of(new RdfjsDatasetModelSet({ dataset }));
+  }
+}
+
+/**
+ * Predicates from a model to nested resources that the model's fromRdf deserializes, mapped to the predicates from those resources to further nested resources.
+ */
+type NestedPredicates = readonly {
+  readonly nestedPredicates: readonly NamedNode[];
+  readonly predicate: NamedNode;
+}[];
+
+const organizationNestedPredicates: NestedPredicates = [
+  { nestedPredicates: [], predicate: schema.address },
+  { nestedPredicates: [], predicate: schema.contactPoint },
+];
+
+const personNestedPredicates: NestedPredicates = [
+  { nestedPredicates: [], predicate: schema.address },
+  { nestedPredicates: [], predicate: schema.contactPoint },
+  { nestedPredicates: [], predicate: schema.hasOccupation },
+  {
+    nestedPredicates: [schema.height, schema.width],
+    predicate: schema.image,
+  },
+];
+
+/**
+ * @param modelPatterns graph patterns and FILTERs on ?model that a model must match
+ * @param page only CONSTRUCT the models in a page of the matching models ordered by identifier
+ */
+function constructQuery({
+  identifier,
+  modelPatterns,
+  nestedPredicates,
+  page,
+  rdfType,
+}: {
+  identifier?: NamedNode;
+  modelPatterns?: readonly string[];
+  nestedPredicates?: NestedPredicates;
+  page?: {
+    descending: boolean;
+    limit: number | undefined;
+    offset: number | undefined;
+  };
+  rdfType: NamedNode;
+}): string {
+  const values = (variable: string, namedNodes: readonly NamedNode[]): string =>
+    `VALUES ?${variable} { ${namedNodes.map(iri).join(" ")} }`;
+
+  const wherePatterns: string[] = ["{ ?model ?modelP ?modelO . }"];
+  if (nestedPredicates && nestedPredicates.length > 0) {
+    wherePatterns.push(`{
+    ${values(
+      "nested1Predicate",
+      nestedPredicates.map(({ predicate }) => predicate),
+    )}
+    ?model ?nested1Predicate ?nested1 .
+    ?nested1 ?nested1P ?nested1O .
+  }`);
+    const nested2Predicates = nestedPredicates.flatMap(
+      ({ nestedPredicates }) => nestedPredicates,
+    );
+    if (nested2Predicates.length > 0) {
+      wherePatterns.push(`{
+    ${values(
+      "nested1Predicate",
+      nestedPredicates.map(({ predicate }) => predicate),
+    )}
+    ${values("nested2Predicate", nested2Predicates)}
+    ?model ?nested1Predicate ?nested1 .
+    ?nested1 ?nested2Predicate ?nested2 .
+    ?nested2 ?nested2P ?nested2O .
+  }`);
+    }
+  }
+
+  const modelSelectionPatterns = [
+    ...(identifier ? [values("model", [identifier])] : []),
+    `?model <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> ${iri(rdfType)} .`,
+    ...(modelPatterns ?? []),
+  ];
+  const modelSelection = page
+    ? `{
+    SELECT ?model WHERE {
+      ${modelSelectionPatterns.join("\n      ")}
+    }
+    ORDER BY ${page.descending ? "DESC(?model)" : "?model"}${typeof page.limit !== "undefined" ? ` LIMIT ${page.limit}` : ""}${typeof page.offset !== "undefined" ? ` OFFSET ${page.offset}` : ""}
+  }`
+    : modelSelectionPatterns.join("\n  ");
+
+  return `\
+CONSTRUCT {
+  ?model ?modelP ?modelO .
+  ?nested1 ?nested1P ?nested1O .
+  ?nested2 ?nested2P ?nested2O .
+} WHERE {
+  ${modelSelection}
+  ${wherePatterns.join("\n  UNION\n  ")}
+}`;
+}
+
+/**
+ * Serialize an IRI for a query. SPARQL has no escape sequences for the characters an IRIREF excludes, and a valid IRI doesn't contain them, so they're percent-encoded rather than written into the query.
+ */
+function iri(namedNode: NamedNode): string {
+  return `<${[...namedNode.value]
+    .map((character) =>
+      character <= " " || '<>"{}|^`\\'.includes(character)
+        ? `%${character.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`
+        : character,
+    )
+    .join("")}>`;
+}
+
+/**
+ * Graph patterns and FILTERs for the filters of a ModelSet.PeopleQuery that have the same semantics on the endpoint as in RdfjsDatasetModelSet.
+ */
+function personQueryPatterns(query: ModelSet.PeopleQuery): readonly string[] {
+  const patterns: string[] = [];
+  if (query.gender) {
+    patterns.push(`?model ${iri(schema.gender)} ${iri(query.gender)} .`);
+  }
+  if (query.memberOf) {
+    patterns.push(`?model ${iri(schema.memberOf)} ${iri(query.memberOf)} .`);
+  }
+  if (query.name) {
+    patterns.push(`FILTER EXISTS {
+    VALUES ?nameP { ${iri(schema.name)} ${iri(schema.givenName)} ${iri(schema.familyName)} }
+    ?model ?nameP ?name .
+    FILTER(CONTAINS(LCASE(STR(?name)), ${JSON.stringify(query.name.toLowerCase())}))
+  }`);
+  }
+  return patterns;
+}
+
+function sortHasOccupation(person: Person): Person {
+  return new Person({
+    ...person,
+    hasOccupation: person.hasOccupation
+      .concat()
+      .sort((left, right) =>
+        compareSortKeys(
+          left.type === "Role"
+            ? left.startDate.map((startDate) => startDate.getTime()).extract()
+            : undefined,
+          right.type === "Role"
+            ? right.startDate.map((startDate) => startDate.getTime()).extract()
+            : undefined,
+        ),
+      ),
+  });
+}
+
+function sortByIdentifier<ModelT extends { identifier: NamedNode }>(
+  models: readonly ModelT[],
+): readonly ModelT[] {
+  return models
+    .concat()
+    .sort((left, right) =>
+      compareIdentifiers(left.identifier, right.identifier),
+    );
+}
@@ -0,0 +1,155 @@
+import type { NamedNode } from "@rdfjs/types";
+import { Either } from "purify-ts";
+import type { ModelSet } from "./ModelSet.js";
+import type { Organization, Person } from "./generated.js";
+
+/**
+ * A link between models that's broken.
+ *
+ * A "dangling" violation is a link to an identifier that's not a model in the ModelSet. An "asymmetric" violation is a link whose inverse is missing, e.g., a Person that's memberOf an Organization that doesn't list the Person in its members.
+ */
+export interface ReferentialIntegrityViolation {
+  readonly object: NamedNode;
+  readonly property:
+    | "memberOf"
+    | "members"
+    | "parentOrganizations"
+    | "subOrganizations";
+  readonly subject: NamedNode;
+  readonly type: "asymmetric" | "dangling";
+}
+
+export namespace ReferentialIntegrityViolation {
+  export function message(violation: ReferentialIntegrityViolation): string {
+    switch (violation.type) {
+      case "asymmetric":
+        return `${violation.subject.value} ${violation.property} ${violation.object.value}, but the inverse link is missing`;
+      case "dangling":
+        return `${violation.subject.value} ${violation.property} ${violation.object.value}, which does not exist`;
+    }
+  }
+}
+
+/**
+ * Check the links between the people and organizations in a ModelSet: Person.memberOf, Organization.members, Organization.parentOrganizations, and Organization.subOrganizations.
+ *
+ * Organization.members may refer to Organizations as well as People. Organizations don't have a memberOf property, so only links to People are checked for symmetry.
+ *
+ * @returns violations in the order of the ModelSet's people, then its organizations
+ */
+export async function checkReferentialIntegrity(
+  modelSet: ModelSet,
+): Promise<Either<Error, readonly ReferentialIntegrityViolation[]>> {
+  const organizationsEither = await modelSet.organizations();
+  if (organizationsEither.isLeft()) {
+    return organizationsEither;
+  }
+  const peopleEither = await modelSet.people();
+  if (peopleEither.isLeft()) {
+    return peopleEither;
+  }
+  return Either.of(
+    referentialIntegrityViolations({
+      organizations: organizationsEither.unsafeCoerce(),
+      people: peopleEither.unsafeCoerce(),
+    }),
+  );
+}
+
+function referentialIntegrityViolations({
+  organizations,
+  people,
+}: {
+  organizations: readonly Organization[];
+  people: readonly Person[];
+}): readonly ReferentialIntegrityViolation[] {
+  const organizationsByIdentifier = new Map(
+    organizations.map((organization) => [
+      organization.identifier.value,
+      organization,
+    ]),
+  );
+  const peopleByIdentifier = new Map(
+    people.map((person) => [person.identifier.value, person]),
+  );
+  const violations: ReferentialIntegrityViolation[] = [];
+
+  for (const person of people) {
+    for (const object of person.memberOf) {
+      const organization = organizationsByIdentifier.get(object.value);
+      if (!organization) {
+        violations.push({
+          object,
+          property: "memberOf",
+          subject: person.identifier,
+          type: "dangling",
+        });
+      } else if (!includesTerm(organization.members, person.identifier)) {
+        violations.push({
+          object,
+          property: "memberOf",
+          subject: person.identifier,
+          type: "asymmetric",
+        });
+      }
+    }
+  }
+
+  for (const organization of organizations) {
+    for (const object of organization.members) {
+      const person = peopleByIdentifier.get(object.value);
+      if (person) {
+        if (!includesTerm(person.memberOf, organization.identifier)) {
+          violations.push({
+            object,
+            property: "members",
+            subject: organization.identifier,
+            type: "asymmetric",
+          });
+        }
+      } else if (!organizationsByIdentifier.has(object.value)) {
+        violations.push({
+          object,
+          property: "members",
+          subject: organization.identifier,
+          type: "dangling",
+        });
+      }
+    }
+
+    for (const [property, inverseProperty] of [
+      ["parentOrganizations", "subOrganizations"],
+      ["subOrganizations", "parentOrganizations"],
+    ] as const) {
+      for (const object of organization[property]) {
+        const otherOrganization = organizationsByIdentifier.get(object.value);
+        if (!otherOrganization) {
+          violations.push({
+            object,
+            property,
+            subject: organization.identifier,
+            type: "dangling",
+          });
+        } else if (
+          !includesTerm(
+            otherOrganization[inverseProperty],
+            organization.identifier,
+          )
+        ) {
+          violations.push({
+            object,
+            property,
+            subject: organization.identifier,
+            type: "asymmetric",
+          });
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+function includesTerm(terms: readonly NamedNode[], term: NamedNode): boolean {
+  return terms.some((otherTerm) => otherTerm.equals(term));
+}
@@ -0,0 +1,52 @@
+import type { NamedNode } from "@rdfjs/types";
+import type { Either } from "purify-ts";
+import type { ModelSet } from "./ModelSet.js";
+import type { Person, Role } from "./generated.js";
+import { compareSortKeys } from "./peopleQuery.js";
+
+/**
+ * A Person's membership on a committee, from a Role in the Person's hasOccupation with that committee.
+ */
+export interface CommitteeMembership {
+  readonly person: Person;
+  readonly role: Role;
+}
+
+/**
+ * The members of a committee in seniority order: the majority before the minority, then by rank. Memberships without a side or rank sort last.
+ *
+ * The Role's name is the member's title on the committee, e.g., "Chair" or "Ranking Member".
+ */
+export async function committeeMemberships({
+  committee,
+  modelSet,
+}: {
+  committee: NamedNode;
+  modelSet: ModelSet;
+}): Promise<Either<Error, readonly CommitteeMembership[]>> {
+  return (await modelSet.people({ hasOccupation: { committee } })).map(
+    (people) =>
+      people
+        .flatMap((person) =>
+          person.hasOccupation.flatMap((occupation) =>
+            occupation.type === "Role" &&
+            occupation.committee
+              .map((term) => term.equals(committee))
+              .orDefault(false)
+              ? [{ person, role: occupation }]
+              : [],
+          ),
+        )
+        .sort(
+          (left, right) =>
+            compareSortKeys(
+              left.role.side.extract(),
+              right.role.side.extract(),
+            ) ||
+            compareSortKeys(
+              left.role.rank.extract(),
+              right.role.rank.extract(),
+            ),
+        ),
+  );
+}
@@ -0,0 +1,201 @@
+import type { NamedNode } from "@rdfjs/types";
+import { Either } from "purify-ts";
+import type { ModelSet } from "./ModelSet.js";
+import type {
+  AdministrativeArea,
+  EqualsResult,
+  Organization,
+  Person,
+} from "./generated.js";
+
+/**
+ * A model that's in both versions of a ModelSet but isn't equal between them.
+ */
+export interface ModelChange<ModelT> {
+  readonly new: ModelT;
+  readonly old: ModelT;
+  /**
+   * The first difference found by the model's equals().
+   */
+  readonly unequal: EqualsResult.Unequal;
+}
+
+/**
+ * The models of one type that were added, changed, or removed between two versions of a ModelSet.
+ */
+export interface ModelChanges<ModelT> {
+  readonly added: readonly ModelT[];
+  readonly changed: readonly ModelChange<ModelT>[];
+  readonly removed: readonly ModelT[];
+}
+
+/**
+ * The differences between two versions of a ModelSet, e.g., the previous and current output of an ETL. Models are matched by identifier.
+ */
+export interface ModelSetChanges {
+  readonly administrativeAreas: ModelChanges<AdministrativeArea>;
+  readonly organizations: ModelChanges<Organization>;
+  readonly people: ModelChanges<Person>;
+}
+
+export namespace ModelSetChanges {
+  /**
+   * A machine-readable changelog. Models are referred to by identifier.
+   */
+  export type Json = {
+    readonly [Key in keyof ModelSetChanges]: {
+      readonly added: readonly string[];
+      readonly changed: readonly {
+        readonly identifier: string;
+        /**
+         * The first property that's different, if the difference is in a property.
+         */
+        readonly propertyName?: string;
+      }[];
+      readonly removed: readonly string[];
+    };
+  };
+
+  export function isEmpty(changes: ModelSetChanges): boolean {
+    return Object.values(changes).every(
+      ({ added, changed, removed }) =>
+        added.length === 0 && changed.length === 0 && removed.length === 0,
+    );
+  }
+
+  /**
+   * One line per model type, e.g., "people: 1 added, 2 changed, 0 removed".
+   */
+  export function summary(changes: ModelSetChanges): string {
+    return modelTypes
+      .map(
+        (modelType) =>
+          `${modelType}: ${changes[modelType].added.length} added, ${changes[modelType].changed.length} changed, ${changes[modelType].removed.length} removed`,
+      )
+      .join("\n");
+  }
+
+  export function toJson(changes: ModelSetChanges): Json {
+    return {
+      administrativeAreas: modelChangesToJson(changes.administrativeAreas),
+      organizations: modelChangesToJson(changes.organizations),
+      people: modelChangesToJson(changes.people),
+    };
+  }
+}
+
+const modelTypes: readonly (keyof ModelSetChanges)[] = [
+  "administrativeAreas",
+  "organizations",
+  "people",
+];
+
+function modelChangesToJson(
+  modelChanges: ModelChanges<{ readonly identifier: NamedNode }>,
+): ModelSetChanges.Json[keyof ModelSetChanges] {
+  const identifiers = (models: readonly { identifier: NamedNode }[]) =>
+    models.map((model) => model.identifier.value);
+  return {
+    added: identifiers(modelChanges.added),
+    changed: modelChanges.changed.map((change) => ({
+      identifier: change.new.identifier.value,
+      propertyName:
+        change.unequal.type === "Property"
+          ? change.unequal.propertyName
+          : undefined,
+    })),
+    removed: identifiers(modelChanges.removed),
+  };
+}
+
+/**
+ * Compare the models in an old and a new version of a ModelSet with the generated equals() methods.
+ *
+ * Added and changed models are in the order of newModelSet, removed models in the order of oldModelSet.
+ */
+export async function diffModelSets({
+  newModelSet,
+  oldModelSet,
+}: {
+  newModelSet: ModelSet;
+  oldModelSet: ModelSet;
+}): Promise<Either<Error, ModelSetChanges>> {
+  const administrativeAreasEither = await diffModels(
+    (modelSet) => modelSet.administrativeAreas(),
+    { newModelSet, oldModelSet },
+  );
+  if (administrativeAreasEither.isLeft()) {
+    return administrativeAreasEither;
+  }
+  const organizationsEither = await diffModels(
+    (modelSet) => modelSet.organizations(),
+    { newModelSet, oldModelSet },
+  );
+  if (organizationsEither.isLeft()) {
+    return organizationsEither;
+  }
+  const peopleEither = await diffModels((modelSet) => modelSet.people(), {
+    newModelSet,
+    oldModelSet,
+  });
+  if (peopleEither.isLeft()) {
+    return peopleEither;
+  }
+  return Either.of({
+    administrativeAreas: administrativeAreasEither.unsafeCoerce(),
+    organizations: organizationsEither.unsafeCoerce(),
+    people: peopleEither.unsafeCoerce(),
+  });
+}
+
+async function diffModels<
+  ModelT extends {
+    equals(other: ModelT): EqualsResult;
+    readonly identifier: NamedNode;
+  },
+>(
+  modelsFromModelSet: (
+    modelSet: ModelSet,
+  ) => Promise<Either<Error, readonly ModelT[]>>,
+  {
+    newModelSet,
+    oldModelSet,
+  }: { newModelSet: ModelSet; oldModelSet: ModelSet },
+): Promise<Either<Error, ModelChanges<ModelT>>> {
+  const oldModelsEither = await modelsFromModelSet(oldModelSet);
+  if (oldModelsEither.isLeft()) {
+    return oldModelsEither;
+  }
+  const newModelsEither = await modelsFromModelSet(newModelSet);
+  if (newModelsEither.isLeft()) {
+    return newModelsEither;
+  }
+  const oldModels = oldModelsEither.unsafeCoerce();
+  const newModels = newModelsEither.unsafeCoerce();
+
+  const oldModelsByIdentifier = new Map(
+    oldModels.map((model) => [model.identifier.value, model]),
+  );
+  const newIdentifiers = new Set(
+    newModels.map((model) => model.identifier.value),
+  );
+  const added: ModelT[] = [];
+  const changed: ModelChange<ModelT>[] = [];
+  for (const newModel of newModels) {
+    const oldModel = oldModelsByIdentifier.get(newModel.identifier.value);
+    if (!oldModel) {
+      added.push(newModel);
+      continue;
+    }
+    newModel.equals(oldModel).ifLeft((unequal) => {
+      changed.push({ new: newModel, old: oldModel, unequal });
+    });
+  }
+  return Either.of({
+    added,
+    changed,
+    removed: oldModels.filter(
+      (model) => !newIdentifiers.has(model.identifier.value),
+    ),
+  });
+}
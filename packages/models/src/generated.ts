@@ -210,11 +210,14 @@ export abstract class Thing {
   readonly name: purify.Maybe<string>;
   readonly sameAs: readonly rdfjs.NamedNode[];
   abstract readonly type:
+    | "AdministrativeArea"
+    | "ContactPoint"
     | "GenderType"
     | "ImageObject"
     | "Occupation"
     | "Organization"
     | "Person"
+    | "PostalAddress"
     | "QuantitiveValue"
     | "Role";
   readonly url: purify.Maybe<rdfjs.NamedNode>;
@@ -393,11 +396,14 @@ export abstract class Thing {
     readonly name: string | undefined;
     readonly sameAs: readonly { readonly "@id": string }[];
     readonly type:
+      | "AdministrativeArea"
+      | "ContactPoint"
       | "GenderType"
       | "ImageObject"
       | "Occupation"
       | "Organization"
       | "Person"
+      | "PostalAddress"
       | "QuantitiveValue"
       | "Role";
     readonly url: { readonly "@id": string } | undefined;
@@ -659,11 +665,14 @@ export namespace Thing {
       name: zod.string().optional(),
       sameAs: zod.object({ "@id": zod.string().min(1) }).array(),
       type: zod.enum([
+        "AdministrativeArea",
+        "ContactPoint",
         "GenderType",
         "ImageObject",
         "Occupation",
         "Organization",
         "Person",
+        "PostalAddress",
         "QuantitiveValue",
         "Role",
       ]),
@@ -674,8 +683,10 @@ export namespace Thing {
 export abstract class Intangible extends Thing {
   abstract override readonly identifier: rdfjs.NamedNode;
   abstract override readonly type:
+    | "ContactPoint"
     | "GenderType"
     | "Occupation"
+    | "PostalAddress"
     | "QuantitiveValue"
     | "Role";
 
@@ -781,14 +792,24 @@ export namespace Intangible {
     return Thing.thingJsonZodSchema().merge(
       zod.object({
         "@id": zod.string().min(1),
-        type: zod.enum(["GenderType", "Occupation", "QuantitiveValue", "Role"]),
+        type: zod.enum([
+          "ContactPoint",
+          "GenderType",
+          "Occupation",
+          "PostalAddress",
+          "QuantitiveValue",
+          "Role",
+        ]),
       }),
     );
   }
 }
 export abstract class StructuredValue extends Intangible {
   abstract override readonly identifier: rdfjs.NamedNode;
-  abstract override readonly type: "QuantitiveValue";
+  abstract override readonly type:
+    | "ContactPoint"
+    | "PostalAddress"
+    | "QuantitiveValue";
 
   // biome-ignore lint/complexity/noUselessConstructor: Always have a constructor
   constructor(parameters: ConstructorParameters<typeof Intangible>[0]) {
@@ -893,30 +914,132 @@ export namespace StructuredValue {
     return Intangible.intangibleJsonZodSchema().merge(
       zod.object({
         "@id": zod.string().min(1),
-        type: zod.literal("QuantitiveValue"),
+        type: zod.enum(["ContactPoint", "PostalAddress", "QuantitiveValue"]),
       }),
     );
   }
 }
 export class Role extends Intangible {
+  readonly caucus: purify.Maybe<rdfjs.NamedNode>;
+  readonly chamber: purify.Maybe<rdfjs.NamedNode>;
+  readonly committee: purify.Maybe<rdfjs.NamedNode>;
+  readonly constituency: purify.Maybe<rdfjs.NamedNode>;
+  readonly district: purify.Maybe<number>;
   readonly endDate: purify.Maybe<Date>;
   private _identifier: rdfjs.NamedNode | undefined;
+  readonly party: purify.Maybe<rdfjs.NamedNode>;
+  readonly rank: purify.Maybe<number>;
   readonly roleName: purify.Maybe<rdfjs.NamedNode>;
+  readonly senateClass: purify.Maybe<number>;
+  readonly side: purify.Maybe<"majority" | "minority">;
   readonly startDate: purify.Maybe<Date>;
+  readonly state: purify.Maybe<string>;
+  readonly stateRank: purify.Maybe<"junior" | "senior">;
   override readonly type = "Role";
 
   constructor(
     parameters: {
+      readonly caucus?:
+        | rdfjs.NamedNode
+        | purify.Maybe<rdfjs.NamedNode>
+        | string;
+      readonly chamber?:
+        | rdfjs.NamedNode
+        | purify.Maybe<rdfjs.NamedNode>
+        | string;
+      readonly committee?:
+        | rdfjs.NamedNode
+        | purify.Maybe<rdfjs.NamedNode>
+        | string;
+      readonly constituency?:
+        | rdfjs.NamedNode
+        | purify.Maybe<rdfjs.NamedNode>
+        | string;
+      readonly district?: number | purify.Maybe<number>;
       readonly endDate?: Date | purify.Maybe<Date>;
       readonly identifier?: rdfjs.NamedNode | string;
+      readonly party?: rdfjs.NamedNode | purify.Maybe<rdfjs.NamedNode> | string;
+      readonly rank?: number | purify.Maybe<number>;
       readonly roleName?:
         | rdfjs.NamedNode
         | purify.Maybe<rdfjs.NamedNode>
         | string;
+      readonly senateClass?: number | purify.Maybe<number>;
+      readonly side?:
+        | "majority"
+        | "minority"
+        | purify.Maybe<"majority" | "minority">;
       readonly startDate?: Date | purify.Maybe<Date>;
+      readonly state?: purify.Maybe<string> | string;
+      readonly stateRank?:
+        | "junior"
+        | "senior"
+        | purify.Maybe<"junior" | "senior">;
     } & ConstructorParameters<typeof Intangible>[0],
   ) {
     super(parameters);
+    if (purify.Maybe.isMaybe(parameters.caucus)) {
+      this.caucus = parameters.caucus;
+    } else if (typeof parameters.caucus === "object") {
+      this.caucus = purify.Maybe.of(parameters.caucus);
+    } else if (typeof parameters.caucus === "string") {
+      this.caucus = purify.Maybe.of(dataFactory.namedNode(parameters.caucus));
+    } else if (typeof parameters.caucus === "undefined") {
+      this.caucus = purify.Maybe.empty();
+    } else {
+      this.caucus = parameters.caucus as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.chamber)) {
+      this.chamber = parameters.chamber;
+    } else if (typeof parameters.chamber === "object") {
+      this.chamber = purify.Maybe.of(parameters.chamber);
+    } else if (typeof parameters.chamber === "string") {
+      this.chamber = purify.Maybe.of(dataFactory.namedNode(parameters.chamber));
+    } else if (typeof parameters.chamber === "undefined") {
+      this.chamber = purify.Maybe.empty();
+    } else {
+      this.chamber = parameters.chamber as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.committee)) {
+      this.committee = parameters.committee;
+    } else if (typeof parameters.committee === "object") {
+      this.committee = purify.Maybe.of(parameters.committee);
+    } else if (typeof parameters.committee === "string") {
+      this.committee = purify.Maybe.of(
+        dataFactory.namedNode(parameters.committee),
+      );
+    } else if (typeof parameters.committee === "undefined") {
+      this.committee = purify.Maybe.empty();
+    } else {
+      this.committee = parameters.committee as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.constituency)) {
+      this.constituency = parameters.constituency;
+    } else if (typeof parameters.constituency === "object") {
+      this.constituency = purify.Maybe.of(parameters.constituency);
+    } else if (typeof parameters.constituency === "string") {
+      this.constituency = purify.Maybe.of(
+        dataFactory.namedNode(parameters.constituency),
+      );
+    } else if (typeof parameters.constituency === "undefined") {
+      this.constituency = purify.Maybe.empty();
+    } else {
+      this.constituency = parameters.constituency as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.district)) {
+      this.district = parameters.district;
+    } else if (typeof parameters.district === "number") {
+      this.district = purify.Maybe.of(parameters.district);
+    } else if (typeof parameters.district === "undefined") {
+      this.district = purify.Maybe.empty();
+    } else {
+      this.district = parameters.district as never;
+    }
+
     if (purify.Maybe.isMaybe(parameters.endDate)) {
       this.endDate = parameters.endDate;
     } else if (
@@ -939,6 +1062,28 @@ export class Role extends Intangible {
       this._identifier = parameters.identifier as never;
     }
 
+    if (purify.Maybe.isMaybe(parameters.party)) {
+      this.party = parameters.party;
+    } else if (typeof parameters.party === "object") {
+      this.party = purify.Maybe.of(parameters.party);
+    } else if (typeof parameters.party === "string") {
+      this.party = purify.Maybe.of(dataFactory.namedNode(parameters.party));
+    } else if (typeof parameters.party === "undefined") {
+      this.party = purify.Maybe.empty();
+    } else {
+      this.party = parameters.party as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.rank)) {
+      this.rank = parameters.rank;
+    } else if (typeof parameters.rank === "number") {
+      this.rank = purify.Maybe.of(parameters.rank);
+    } else if (typeof parameters.rank === "undefined") {
+      this.rank = purify.Maybe.empty();
+    } else {
+      this.rank = parameters.rank as never;
+    }
+
     if (purify.Maybe.isMaybe(parameters.roleName)) {
       this.roleName = parameters.roleName;
     } else if (typeof parameters.roleName === "object") {
@@ -953,6 +1098,26 @@ export class Role extends Intangible {
       this.roleName = parameters.roleName as never;
     }
 
+    if (purify.Maybe.isMaybe(parameters.senateClass)) {
+      this.senateClass = parameters.senateClass;
+    } else if (typeof parameters.senateClass === "number") {
+      this.senateClass = purify.Maybe.of(parameters.senateClass);
+    } else if (typeof parameters.senateClass === "undefined") {
+      this.senateClass = purify.Maybe.empty();
+    } else {
+      this.senateClass = parameters.senateClass as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.side)) {
+      this.side = parameters.side;
+    } else if (typeof parameters.side === "string") {
+      this.side = purify.Maybe.of(parameters.side);
+    } else if (typeof parameters.side === "undefined") {
+      this.side = purify.Maybe.empty();
+    } else {
+      this.side = parameters.side as never;
+    }
+
     if (purify.Maybe.isMaybe(parameters.startDate)) {
       this.startDate = parameters.startDate;
     } else if (
@@ -965,6 +1130,26 @@ export class Role extends Intangible {
     } else {
       this.startDate = parameters.startDate as never;
     }
+
+    if (purify.Maybe.isMaybe(parameters.state)) {
+      this.state = parameters.state;
+    } else if (typeof parameters.state === "string") {
+      this.state = purify.Maybe.of(parameters.state);
+    } else if (typeof parameters.state === "undefined") {
+      this.state = purify.Maybe.empty();
+    } else {
+      this.state = parameters.state as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.stateRank)) {
+      this.stateRank = parameters.stateRank;
+    } else if (typeof parameters.stateRank === "string") {
+      this.stateRank = purify.Maybe.of(parameters.stateRank);
+    } else if (typeof parameters.stateRank === "undefined") {
+      this.stateRank = purify.Maybe.empty();
+    } else {
+      this.stateRank = parameters.stateRank as never;
+    }
   }
 
   override get identifier(): rdfjs.NamedNode {
@@ -978,6 +1163,66 @@ export class Role extends Intangible {
   override equals(other: Role): EqualsResult {
     return super
       .equals(other)
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, booleanEquals))(
+          this.caucus,
+          other.caucus,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "caucus",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, booleanEquals))(
+          this.chamber,
+          other.chamber,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "chamber",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, booleanEquals))(
+          this.committee,
+          other.committee,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "committee",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, booleanEquals))(
+          this.constituency,
+          other.constituency,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "constituency",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.district,
+          other.district,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "district",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
       .chain(() =>
         ((left, right) => maybeEquals(left, right, dateEquals))(
           this.endDate,
@@ -990,6 +1235,30 @@ export class Role extends Intangible {
           type: "Property" as const,
         })),
       )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, booleanEquals))(
+          this.party,
+          other.party,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "party",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.rank,
+          other.rank,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "rank",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
       .chain(() =>
         ((left, right) => maybeEquals(left, right, booleanEquals))(
           this.roleName,
@@ -1002,6 +1271,30 @@ export class Role extends Intangible {
           type: "Property" as const,
         })),
       )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.senateClass,
+          other.senateClass,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "senateClass",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.side,
+          other.side,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "side",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
       .chain(() =>
         ((left, right) => maybeEquals(left, right, dateEquals))(
           this.startDate,
@@ -1013,6 +1306,30 @@ export class Role extends Intangible {
           propertyValuesUnequal,
           type: "Property" as const,
         })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.state,
+          other.state,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "state",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.stateRank,
+          other.stateRank,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "stateRank",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
       );
   }
 
@@ -1022,36 +1339,102 @@ export class Role extends Intangible {
     },
   >(_hasher: HasherT): HasherT {
     super.hash(_hasher);
+    this.caucus.ifJust((_value0) => {
+      _hasher.update(_value0.termType);
+      _hasher.update(_value0.value);
+    });
+    this.chamber.ifJust((_value0) => {
+      _hasher.update(_value0.termType);
+      _hasher.update(_value0.value);
+    });
+    this.committee.ifJust((_value0) => {
+      _hasher.update(_value0.termType);
+      _hasher.update(_value0.value);
+    });
+    this.constituency.ifJust((_value0) => {
+      _hasher.update(_value0.termType);
+      _hasher.update(_value0.value);
+    });
+    this.district.ifJust((_value0) => {
+      _hasher.update(_value0.toString());
+    });
     this.endDate.ifJust((_value0) => {
       _hasher.update(_value0.toISOString());
     });
+    this.party.ifJust((_value0) => {
+      _hasher.update(_value0.termType);
+      _hasher.update(_value0.value);
+    });
+    this.rank.ifJust((_value0) => {
+      _hasher.update(_value0.toString());
+    });
     this.roleName.ifJust((_value0) => {
       _hasher.update(_value0.termType);
       _hasher.update(_value0.value);
     });
+    this.senateClass.ifJust((_value0) => {
+      _hasher.update(_value0.toString());
+    });
+    this.side.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
     this.startDate.ifJust((_value0) => {
       _hasher.update(_value0.toISOString());
     });
+    this.state.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.stateRank.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
     return _hasher;
   }
 
   override toJson(): {
+    readonly caucus: { readonly "@id": string } | undefined;
+    readonly chamber: { readonly "@id": string } | undefined;
+    readonly committee: { readonly "@id": string } | undefined;
+    readonly constituency: { readonly "@id": string } | undefined;
+    readonly district: number | undefined;
     readonly endDate: string | undefined;
+    readonly party: { readonly "@id": string } | undefined;
+    readonly rank: number | undefined;
     readonly roleName: { readonly "@id": string } | undefined;
+    readonly senateClass: number | undefined;
+    readonly side: "majority" | "minority" | undefined;
     readonly startDate: string | undefined;
+    readonly state: string | undefined;
+    readonly stateRank: "junior" | "senior" | undefined;
   } & ReturnType<Intangible["toJson"]> {
     return JSON.parse(
       JSON.stringify({
         ...super.toJson(),
+        caucus: this.caucus.map((_item) => ({ "@id": _item.value })).extract(),
+        chamber: this.chamber
+          .map((_item) => ({ "@id": _item.value }))
+          .extract(),
+        committee: this.committee
+          .map((_item) => ({ "@id": _item.value }))
+          .extract(),
+        constituency: this.constituency
+          .map((_item) => ({ "@id": _item.value }))
+          .extract(),
+        district: this.district.map((_item) => _item).extract(),
         endDate: this.endDate
           .map((_item) => _item.toISOString().replace(/T.*$/, ""))
           .extract(),
+        party: this.party.map((_item) => ({ "@id": _item.value })).extract(),
+        rank: this.rank.map((_item) => _item).extract(),
         roleName: this.roleName
           .map((_item) => ({ "@id": _item.value }))
           .extract(),
+        senateClass: this.senateClass.map((_item) => _item).extract(),
+        side: this.side.map((_item) => _item).extract(),
         startDate: this.startDate
           .map((_item) => _item.toISOString().replace(/T.*$/, ""))
           .extract(),
+        state: this.state.map((_item) => _item).extract(),
+        stateRank: this.stateRank.map((_item) => _item).extract(),
       } satisfies ReturnType<Role["toJson"]>),
     );
   }
@@ -1079,6 +1462,36 @@ export class Role extends Intangible {
       );
     }
 
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#caucus",
+      ),
+      this.caucus,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#chamber",
+      ),
+      this.chamber,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#committee",
+      ),
+      this.committee,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#constituency",
+      ),
+      this.constituency,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#district",
+      ),
+      this.district,
+    );
     _resource.add(
       dataFactory.namedNode("http://schema.org/endDate"),
       this.endDate.map((_value) =>
@@ -1090,10 +1503,34 @@ export class Role extends Intangible {
         }),
       ),
     );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#party",
+      ),
+      this.party,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#rank",
+      ),
+      this.rank,
+    );
     _resource.add(
       dataFactory.namedNode("http://schema.org/roleName"),
       this.roleName,
     );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#senateClass",
+      ),
+      this.senateClass,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#side",
+      ),
+      this.side,
+    );
     _resource.add(
       dataFactory.namedNode("http://schema.org/startDate"),
       this.startDate.map((_value) =>
@@ -1105,6 +1542,18 @@ export class Role extends Intangible {
         }),
       ),
     );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#state",
+      ),
+      this.state,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#stateRank",
+      ),
+      this.stateRank,
+    );
     return _resource;
   }
 
@@ -1119,10 +1568,21 @@ export namespace Role {
   ): purify.Either<
     zod.ZodError,
     {
+      caucus: purify.Maybe<rdfjs.NamedNode>;
+      chamber: purify.Maybe<rdfjs.NamedNode>;
+      committee: purify.Maybe<rdfjs.NamedNode>;
+      constituency: purify.Maybe<rdfjs.NamedNode>;
+      district: purify.Maybe<number>;
       endDate: purify.Maybe<Date>;
       identifier: rdfjs.NamedNode;
+      party: purify.Maybe<rdfjs.NamedNode>;
+      rank: purify.Maybe<number>;
       roleName: purify.Maybe<rdfjs.NamedNode>;
+      senateClass: purify.Maybe<number>;
+      side: purify.Maybe<"majority" | "minority">;
       startDate: purify.Maybe<Date>;
+      state: purify.Maybe<string>;
+      stateRank: purify.Maybe<"junior" | "senior">;
     } & UnwrapR<ReturnType<typeof Intangible.propertiesFromJson>>
   > {
     const _jsonSafeParseResult = roleJsonZodSchema().safeParse(_json);
@@ -1137,22 +1597,54 @@ export namespace Role {
     }
 
     const _super0 = _super0Either.unsafeCoerce();
+    const caucus = purify.Maybe.fromNullable(_jsonObject["caucus"]).map(
+      (_item) => dataFactory.namedNode(_item["@id"]),
+    );
+    const chamber = purify.Maybe.fromNullable(_jsonObject["chamber"]).map(
+      (_item) => dataFactory.namedNode(_item["@id"]),
+    );
+    const committee = purify.Maybe.fromNullable(_jsonObject["committee"]).map(
+      (_item) => dataFactory.namedNode(_item["@id"]),
+    );
+    const constituency = purify.Maybe.fromNullable(
+      _jsonObject["constituency"],
+    ).map((_item) => dataFactory.namedNode(_item["@id"]));
+    const district = purify.Maybe.fromNullable(_jsonObject["district"]);
     const endDate = purify.Maybe.fromNullable(_jsonObject["endDate"]).map(
       (_item) => new Date(_item),
     );
     const identifier = dataFactory.namedNode(_jsonObject["@id"]);
+    const party = purify.Maybe.fromNullable(_jsonObject["party"]).map(
+      (_item) => dataFactory.namedNode(_item["@id"]),
+    );
+    const rank = purify.Maybe.fromNullable(_jsonObject["rank"]);
     const roleName = purify.Maybe.fromNullable(_jsonObject["roleName"]).map(
       (_item) => dataFactory.namedNode(_item["@id"]),
     );
+    const senateClass = purify.Maybe.fromNullable(_jsonObject["senateClass"]);
+    const side = purify.Maybe.fromNullable(_jsonObject["side"]);
     const startDate = purify.Maybe.fromNullable(_jsonObject["startDate"]).map(
       (_item) => new Date(_item),
     );
+    const state = purify.Maybe.fromNullable(_jsonObject["state"]);
+    const stateRank = purify.Maybe.fromNullable(_jsonObject["stateRank"]);
     return purify.Either.of({
       ..._super0,
+      caucus,
+      chamber,
+      committee,
+      constituency,
+      district,
       endDate,
       identifier,
+      party,
+      rank,
       roleName,
+      senateClass,
+      side,
       startDate,
+      state,
+      stateRank,
     });
   }
 
@@ -1176,10 +1668,21 @@ export namespace Role {
   }): purify.Either<
     rdfjsResource.Resource.ValueError,
     {
+      caucus: purify.Maybe<rdfjs.NamedNode>;
+      chamber: purify.Maybe<rdfjs.NamedNode>;
+      committee: purify.Maybe<rdfjs.NamedNode>;
+      constituency: purify.Maybe<rdfjs.NamedNode>;
+      district: purify.Maybe<number>;
       endDate: purify.Maybe<Date>;
       identifier: rdfjs.NamedNode;
+      party: purify.Maybe<rdfjs.NamedNode>;
+      rank: purify.Maybe<number>;
       roleName: purify.Maybe<rdfjs.NamedNode>;
+      senateClass: purify.Maybe<number>;
+      side: purify.Maybe<"majority" | "minority">;
       startDate: purify.Maybe<Date>;
+      state: purify.Maybe<string>;
+      stateRank: purify.Maybe<"junior" | "senior">;
     } & UnwrapR<ReturnType<typeof Intangible.propertiesFromRdf>>
   > {
     const _super0Either = Intangible.propertiesFromRdf({
@@ -1206,64 +1709,343 @@ export namespace Role {
       );
     }
 
-    const _endDateEither: purify.Either<
+    const _caucusEither: purify.Either<
       rdfjsResource.Resource.ValueError,
-      purify.Maybe<Date>
+      purify.Maybe<rdfjs.NamedNode>
     > = purify.Either.of(
       _resource
-        .values(dataFactory.namedNode("http://schema.org/endDate"), {
-          unique: true,
-        })
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#caucus",
+          ),
+          { unique: true },
+        )
         .head()
-        .chain((_value) => _value.toDate())
+        .chain((_value) => _value.toIri())
         .toMaybe(),
     );
-    if (_endDateEither.isLeft()) {
-      return _endDateEither;
+    if (_caucusEither.isLeft()) {
+      return _caucusEither;
     }
 
-    const endDate = _endDateEither.unsafeCoerce();
-    const identifier = _resource.identifier;
-    const _roleNameEither: purify.Either<
+    const caucus = _caucusEither.unsafeCoerce();
+    const _chamberEither: purify.Either<
       rdfjsResource.Resource.ValueError,
       purify.Maybe<rdfjs.NamedNode>
     > = purify.Either.of(
       _resource
-        .values(dataFactory.namedNode("http://schema.org/roleName"), {
-          unique: true,
-        })
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#chamber",
+          ),
+          { unique: true },
+        )
         .head()
         .chain((_value) => _value.toIri())
         .toMaybe(),
     );
-    if (_roleNameEither.isLeft()) {
-      return _roleNameEither;
+    if (_chamberEither.isLeft()) {
+      return _chamberEither;
     }
 
-    const roleName = _roleNameEither.unsafeCoerce();
-    const _startDateEither: purify.Either<
+    const chamber = _chamberEither.unsafeCoerce();
+    const _committeeEither: purify.Either<
       rdfjsResource.Resource.ValueError,
-      purify.Maybe<Date>
+      purify.Maybe<rdfjs.NamedNode>
     > = purify.Either.of(
       _resource
-        .values(dataFactory.namedNode("http://schema.org/startDate"), {
-          unique: true,
-        })
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#committee",
+          ),
+          { unique: true },
+        )
         .head()
-        .chain((_value) => _value.toDate())
+        .chain((_value) => _value.toIri())
         .toMaybe(),
     );
-    if (_startDateEither.isLeft()) {
+    if (_committeeEither.isLeft()) {
+      return _committeeEither;
+    }
+
+    const committee = _committeeEither.unsafeCoerce();
+    const _constituencyEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<rdfjs.NamedNode>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#constituency",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toIri())
+        .toMaybe(),
+    );
+    if (_constituencyEither.isLeft()) {
+      return _constituencyEither;
+    }
+
+    const constituency = _constituencyEither.unsafeCoerce();
+    const _districtEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<number>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#district",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toNumber())
+        .toMaybe(),
+    );
+    if (_districtEither.isLeft()) {
+      return _districtEither;
+    }
+
+    const district = _districtEither.unsafeCoerce();
+    const _endDateEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<Date>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/endDate"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toDate())
+        .toMaybe(),
+    );
+    if (_endDateEither.isLeft()) {
+      return _endDateEither;
+    }
+
+    const endDate = _endDateEither.unsafeCoerce();
+    const identifier = _resource.identifier;
+    const _partyEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<rdfjs.NamedNode>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#party",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toIri())
+        .toMaybe(),
+    );
+    if (_partyEither.isLeft()) {
+      return _partyEither;
+    }
+
+    const party = _partyEither.unsafeCoerce();
+    const _rankEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<number>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#rank",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toNumber())
+        .toMaybe(),
+    );
+    if (_rankEither.isLeft()) {
+      return _rankEither;
+    }
+
+    const rank = _rankEither.unsafeCoerce();
+    const _roleNameEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<rdfjs.NamedNode>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/roleName"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toIri())
+        .toMaybe(),
+    );
+    if (_roleNameEither.isLeft()) {
+      return _roleNameEither;
+    }
+
+    const roleName = _roleNameEither.unsafeCoerce();
+    const _senateClassEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<number>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#senateClass",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toNumber())
+        .toMaybe(),
+    );
+    if (_senateClassEither.isLeft()) {
+      return _senateClassEither;
+    }
+
+    const senateClass = _senateClassEither.unsafeCoerce();
+    const _sideEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<"majority" | "minority">
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#side",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toString())
+        .chain((_value) => {
+          switch (_value) {
+            case "majority":
+            case "minority":
+              return purify.Either.of<
+                rdfjsResource.Resource.ValueError,
+                "majority" | "minority"
+              >(_value);
+            default:
+              return purify.Left<
+                rdfjsResource.Resource.ValueError,
+                "majority" | "minority"
+              >(
+                new rdfjsResource.Resource.MistypedValueError({
+                  actualValue: rdfLiteral.toRdf(_value),
+                  expectedValueType: '"majority" | "minority"',
+                  focusResource: _resource,
+                  predicate: dataFactory.namedNode(
+                    "http://purl.archive.org/purl/prosopa/ontology#side",
+                  ),
+                }),
+              );
+          }
+        })
+        .toMaybe(),
+    );
+    if (_sideEither.isLeft()) {
+      return _sideEither;
+    }
+
+    const side = _sideEither.unsafeCoerce();
+    const _startDateEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<Date>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/startDate"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toDate())
+        .toMaybe(),
+    );
+    if (_startDateEither.isLeft()) {
       return _startDateEither;
     }
 
     const startDate = _startDateEither.unsafeCoerce();
+    const _stateEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#state",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_stateEither.isLeft()) {
+      return _stateEither;
+    }
+
+    const state = _stateEither.unsafeCoerce();
+    const _stateRankEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<"junior" | "senior">
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#stateRank",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toString())
+        .chain((_value) => {
+          switch (_value) {
+            case "junior":
+            case "senior":
+              return purify.Either.of<
+                rdfjsResource.Resource.ValueError,
+                "junior" | "senior"
+              >(_value);
+            default:
+              return purify.Left<
+                rdfjsResource.Resource.ValueError,
+                "junior" | "senior"
+              >(
+                new rdfjsResource.Resource.MistypedValueError({
+                  actualValue: rdfLiteral.toRdf(_value),
+                  expectedValueType: '"junior" | "senior"',
+                  focusResource: _resource,
+                  predicate: dataFactory.namedNode(
+                    "http://purl.archive.org/purl/prosopa/ontology#stateRank",
+                  ),
+                }),
+              );
+          }
+        })
+        .toMaybe(),
+    );
+    if (_stateRankEither.isLeft()) {
+      return _stateRankEither;
+    }
+
+    const stateRank = _stateRankEither.unsafeCoerce();
     return purify.Either.of({
       ..._super0,
+      caucus,
+      chamber,
+      committee,
+      constituency,
+      district,
       endDate,
       identifier,
+      party,
+      rank,
       roleName,
+      senateClass,
+      side,
       startDate,
+      state,
+      stateRank,
     });
   }
 
@@ -1288,9 +2070,20 @@ export namespace Role {
     return {
       elements: [
         Intangible.intangibleJsonUiSchema({ scopePrefix }),
+        { scope: `${scopePrefix}/properties/caucus`, type: "Control" },
+        { scope: `${scopePrefix}/properties/chamber`, type: "Control" },
+        { scope: `${scopePrefix}/properties/committee`, type: "Control" },
+        { scope: `${scopePrefix}/properties/constituency`, type: "Control" },
+        { scope: `${scopePrefix}/properties/district`, type: "Control" },
         { scope: `${scopePrefix}/properties/endDate`, type: "Control" },
+        { scope: `${scopePrefix}/properties/party`, type: "Control" },
+        { scope: `${scopePrefix}/properties/rank`, type: "Control" },
         { scope: `${scopePrefix}/properties/roleName`, type: "Control" },
+        { scope: `${scopePrefix}/properties/senateClass`, type: "Control" },
+        { scope: `${scopePrefix}/properties/side`, type: "Control" },
         { scope: `${scopePrefix}/properties/startDate`, type: "Control" },
+        { scope: `${scopePrefix}/properties/state`, type: "Control" },
+        { scope: `${scopePrefix}/properties/stateRank`, type: "Control" },
       ],
       label: "Role",
       type: "Group",
@@ -1300,17 +2093,31 @@ export namespace Role {
   export function roleJsonZodSchema() {
     return Intangible.intangibleJsonZodSchema().merge(
       zod.object({
+        caucus: zod.object({ "@id": zod.string().min(1) }).optional(),
+        chamber: zod.object({ "@id": zod.string().min(1) }).optional(),
+        committee: zod.object({ "@id": zod.string().min(1) }).optional(),
+        constituency: zod.object({ "@id": zod.string().min(1) }).optional(),
+        district: zod.number().optional(),
         endDate: zod.string().date().optional(),
         "@id": zod.string().min(1),
+        party: zod.object({ "@id": zod.string().min(1) }).optional(),
+        rank: zod.number().optional(),
         roleName: zod.object({ "@id": zod.string().min(1) }).optional(),
+        senateClass: zod.number().optional(),
+        side: zod.enum(["majority", "minority"]).optional(),
         startDate: zod.string().date().optional(),
+        state: zod.string().optional(),
+        stateRank: zod.enum(["junior", "senior"]).optional(),
         type: zod.literal("Role"),
       }),
     );
   }
 }
+
 export class Person extends Thing {
+  readonly addresses: readonly PostalAddress[];
   readonly birthDate: purify.Maybe<Date>;
+  readonly contactPoints: readonly ContactPoint[];
   readonly familyName: purify.Maybe<string>;
   readonly gender: purify.Maybe<
     rdfjs.BlankNode | rdfjs.NamedNode | rdfjs.Literal
@@ -1324,7 +2131,9 @@ export class Person extends Thing {
 
   constructor(
     parameters: {
+      readonly addresses?: readonly PostalAddress[];
       readonly birthDate?: Date | purify.Maybe<Date>;
+      readonly contactPoints?: readonly ContactPoint[];
       readonly familyName?: purify.Maybe<string> | string;
       readonly gender?:
         | (rdfjs.BlankNode | rdfjs.NamedNode | rdfjs.Literal)
@@ -1341,6 +2150,14 @@ export class Person extends Thing {
     } & ConstructorParameters<typeof Thing>[0],
   ) {
     super(parameters);
+    if (typeof parameters.addresses === "undefined") {
+      this.addresses = [];
+    } else if (Array.isArray(parameters.addresses)) {
+      this.addresses = parameters.addresses;
+    } else {
+      this.addresses = parameters.addresses as never;
+    }
+
     if (purify.Maybe.isMaybe(parameters.birthDate)) {
       this.birthDate = parameters.birthDate;
     } else if (
@@ -1354,6 +2171,14 @@ export class Person extends Thing {
       this.birthDate = parameters.birthDate as never;
     }
 
+    if (typeof parameters.contactPoints === "undefined") {
+      this.contactPoints = [];
+    } else if (Array.isArray(parameters.contactPoints)) {
+      this.contactPoints = parameters.contactPoints;
+    } else {
+      this.contactPoints = parameters.contactPoints as never;
+    }
+
     if (purify.Maybe.isMaybe(parameters.familyName)) {
       this.familyName = parameters.familyName;
     } else if (typeof parameters.familyName === "string") {
@@ -1437,6 +2262,19 @@ export class Person extends Thing {
   override equals(other: Person): EqualsResult {
     return super
       .equals(other)
+      .chain(() =>
+        ((left, right) =>
+          arrayEquals(left, right, (left, right) => left.equals(right)))(
+          this.addresses,
+          other.addresses,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "addresses",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
       .chain(() =>
         ((left, right) => maybeEquals(left, right, dateEquals))(
           this.birthDate,
@@ -1449,6 +2287,19 @@ export class Person extends Thing {
           type: "Property" as const,
         })),
       )
+      .chain(() =>
+        ((left, right) =>
+          arrayEquals(left, right, (left, right) => left.equals(right)))(
+          this.contactPoints,
+          other.contactPoints,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "contactPoints",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
       .chain(() =>
         ((left, right) => maybeEquals(left, right, strictEquals))(
           this.familyName,
@@ -1553,9 +2404,17 @@ export class Person extends Thing {
     },
   >(_hasher: HasherT): HasherT {
     super.hash(_hasher);
+    for (const _item0 of this.addresses) {
+      _item0.hash(_hasher);
+    }
+
     this.birthDate.ifJust((_value0) => {
       _hasher.update(_value0.toISOString());
     });
+    for (const _item0 of this.contactPoints) {
+      _item0.hash(_hasher);
+    }
+
     this.familyName.ifJust((_value0) => {
       _hasher.update(_value0);
     });
@@ -1593,7 +2452,9 @@ export class Person extends Thing {
   }
 
   override toJson(): {
+    readonly addresses: readonly ReturnType<PostalAddress["toJson"]>[];
     readonly birthDate: string | undefined;
+    readonly contactPoints: readonly ReturnType<ContactPoint["toJson"]>[];
     readonly familyName: string | undefined;
     readonly gender:
       | (
@@ -1620,9 +2481,11 @@ export class Person extends Thing {
     return JSON.parse(
       JSON.stringify({
         ...super.toJson(),
+        addresses: this.addresses.map((_item) => _item.toJson()),
         birthDate: this.birthDate
           .map((_item) => _item.toISOString().replace(/T.*$/, ""))
           .extract(),
+        contactPoints: this.contactPoints.map((_item) => _item.toJson()),
         familyName: this.familyName.map((_item) => _item).extract(),
         gender: this.gender
           .map((_item) =>
@@ -1676,6 +2539,12 @@ export class Person extends Thing {
       );
     }
 
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/address"),
+      this.addresses.map((_item) =>
+        _item.toRdf({ mutateGraph: mutateGraph, resourceSet: resourceSet }),
+      ),
+    );
     _resource.add(
       dataFactory.namedNode("http://schema.org/birthDate"),
       this.birthDate.map((_value) =>
@@ -1687,6 +2556,12 @@ export class Person extends Thing {
         }),
       ),
     );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/contactPoint"),
+      this.contactPoints.map((_item) =>
+        _item.toRdf({ mutateGraph: mutateGraph, resourceSet: resourceSet }),
+      ),
+    );
     _resource.add(
       dataFactory.namedNode("http://schema.org/familyName"),
       this.familyName,
@@ -1731,7 +2606,9 @@ export namespace Person {
   ): purify.Either<
     zod.ZodError,
     {
+      addresses: readonly PostalAddress[];
       birthDate: purify.Maybe<Date>;
+      contactPoints: readonly ContactPoint[];
       familyName: purify.Maybe<string>;
       gender: purify.Maybe<rdfjs.BlankNode | rdfjs.NamedNode | rdfjs.Literal>;
       givenName: purify.Maybe<string>;
@@ -1753,9 +2630,15 @@ export namespace Person {
     }
 
     const _super0 = _super0Either.unsafeCoerce();
+    const addresses = _jsonObject["addresses"].map((_item) =>
+      PostalAddress.fromJson(_item).unsafeCoerce(),
+    );
     const birthDate = purify.Maybe.fromNullable(_jsonObject["birthDate"]).map(
       (_item) => new Date(_item),
     );
+    const contactPoints = _jsonObject["contactPoints"].map((_item) =>
+      ContactPoint.fromJson(_item).unsafeCoerce(),
+    );
     const familyName = purify.Maybe.fromNullable(_jsonObject["familyName"]);
     const gender = purify.Maybe.fromNullable(_jsonObject["gender"]).map(
       (_item) =>
@@ -1787,7 +2670,9 @@ export namespace Person {
     );
     return purify.Either.of({
       ..._super0,
+      addresses,
       birthDate,
+      contactPoints,
       familyName,
       gender,
       givenName,
@@ -1818,7 +2703,9 @@ export namespace Person {
   }): purify.Either<
     rdfjsResource.Resource.ValueError,
     {
+      addresses: readonly PostalAddress[];
       birthDate: purify.Maybe<Date>;
+      contactPoints: readonly ContactPoint[];
       familyName: purify.Maybe<string>;
       gender: purify.Maybe<rdfjs.BlankNode | rdfjs.NamedNode | rdfjs.Literal>;
       givenName: purify.Maybe<string>;
@@ -1852,6 +2739,36 @@ export namespace Person {
       );
     }
 
+    const _addressesEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      readonly PostalAddress[]
+    > = purify.Either.of([
+      ..._resource
+        .values(dataFactory.namedNode("http://schema.org/address"), {
+          unique: true,
+        })
+        .flatMap((_item) =>
+          _item
+            .toValues()
+            .head()
+            .chain((value) => value.toNamedResource())
+            .chain((_resource) =>
+              PostalAddress.fromRdf({
+                ..._context,
+                ignoreRdfType: true,
+                languageIn: _languageIn,
+                resource: _resource,
+              }),
+            )
+            .toMaybe()
+            .toList(),
+        ),
+    ]);
+    if (_addressesEither.isLeft()) {
+      return _addressesEither;
+    }
+
+    const addresses = _addressesEither.unsafeCoerce();
     const _birthDateEither: purify.Either<
       rdfjsResource.Resource.ValueError,
       purify.Maybe<Date>
@@ -1869,6 +2786,36 @@ export namespace Person {
     }
 
     const birthDate = _birthDateEither.unsafeCoerce();
+    const _contactPointsEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      readonly ContactPoint[]
+    > = purify.Either.of([
+      ..._resource
+        .values(dataFactory.namedNode("http://schema.org/contactPoint"), {
+          unique: true,
+        })
+        .flatMap((_item) =>
+          _item
+            .toValues()
+            .head()
+            .chain((value) => value.toNamedResource())
+            .chain((_resource) =>
+              ContactPoint.fromRdf({
+                ..._context,
+                ignoreRdfType: true,
+                languageIn: _languageIn,
+                resource: _resource,
+              }),
+            )
+            .toMaybe()
+            .toList(),
+        ),
+    ]);
+    if (_contactPointsEither.isLeft()) {
+      return _contactPointsEither;
+    }
+
+    const contactPoints = _contactPointsEither.unsafeCoerce();
     const _familyNameEither: purify.Either<
       rdfjsResource.Resource.ValueError,
       purify.Maybe<string>
@@ -1935,7 +2882,7 @@ export namespace Person {
               .head()
               .chain((value) => value.toNamedResource())
               .chain((_resource) =>
-                Occupation.fromRdf({
+                Role.fromRdf({
                   ..._context,
                   ignoreRdfType: true,
                   languageIn: _languageIn,
@@ -1953,7 +2900,7 @@ export namespace Person {
                   .head()
                   .chain((value) => value.toNamedResource())
                   .chain((_resource) =>
-                    Role.fromRdf({
+                    Occupation.fromRdf({
                       ..._context,
                       ignoreRdfType: true,
                       languageIn: _languageIn,
@@ -2028,7 +2975,9 @@ export namespace Person {
     const memberOf = _memberOfEither.unsafeCoerce();
     return purify.Either.of({
       ..._super0,
+      addresses,
       birthDate,
+      contactPoints,
       familyName,
       gender,
       givenName,
@@ -2060,7 +3009,13 @@ export namespace Person {
     return {
       elements: [
         Thing.thingJsonUiSchema({ scopePrefix }),
+        PostalAddress.postalAddressJsonUiSchema({
+          scopePrefix: `${scopePrefix}/properties/addresses`,
+        }),
         { scope: `${scopePrefix}/properties/birthDate`, type: "Control" },
+        ContactPoint.contactPointJsonUiSchema({
+          scopePrefix: `${scopePrefix}/properties/contactPoints`,
+        }),
         { scope: `${scopePrefix}/properties/familyName`, type: "Control" },
         { scope: `${scopePrefix}/properties/gender`, type: "Control" },
         { scope: `${scopePrefix}/properties/givenName`, type: "Control" },
@@ -2078,7 +3033,9 @@ export namespace Person {
   export function personJsonZodSchema() {
     return Thing.thingJsonZodSchema().merge(
       zod.object({
+        addresses: PostalAddress.postalAddressJsonZodSchema().array(),
         birthDate: zod.string().date().optional(),
+        contactPoints: ContactPoint.contactPointJsonZodSchema().array(),
         familyName: zod.string().optional(),
         gender: zod
           .discriminatedUnion("termType", [
@@ -2114,6 +3071,8 @@ export namespace Person {
   }
 }
 export class Organization extends Thing {
+  readonly addresses: readonly PostalAddress[];
+  readonly contactPoints: readonly ContactPoint[];
   readonly identifier: rdfjs.NamedNode;
   members: rdfjs.NamedNode[];
   parentOrganizations: rdfjs.NamedNode[];
@@ -2122,6 +3081,8 @@ export class Organization extends Thing {
 
   constructor(
     parameters: {
+      readonly addresses?: readonly PostalAddress[];
+      readonly contactPoints?: readonly ContactPoint[];
       readonly identifier: rdfjs.NamedNode | string;
       readonly members?: readonly rdfjs.NamedNode[];
       readonly parentOrganizations?: readonly rdfjs.NamedNode[];
@@ -2129,6 +3090,22 @@ export class Organization extends Thing {
     } & ConstructorParameters<typeof Thing>[0],
   ) {
     super(parameters);
+    if (typeof parameters.addresses === "undefined") {
+      this.addresses = [];
+    } else if (Array.isArray(parameters.addresses)) {
+      this.addresses = parameters.addresses;
+    } else {
+      this.addresses = parameters.addresses as never;
+    }
+
+    if (typeof parameters.contactPoints === "undefined") {
+      this.contactPoints = [];
+    } else if (Array.isArray(parameters.contactPoints)) {
+      this.contactPoints = parameters.contactPoints;
+    } else {
+      this.contactPoints = parameters.contactPoints as never;
+    }
+
     if (typeof parameters.identifier === "object") {
       this.identifier = parameters.identifier;
     } else if (typeof parameters.identifier === "string") {
@@ -2166,21 +3143,47 @@ export class Organization extends Thing {
     return super
       .equals(other)
       .chain(() =>
-        ((left, right) => arrayEquals(left, right, booleanEquals))(
-          this.members,
-          other.members,
+        ((left, right) =>
+          arrayEquals(left, right, (left, right) => left.equals(right)))(
+          this.addresses,
+          other.addresses,
         ).mapLeft((propertyValuesUnequal) => ({
           left: this,
           right: other,
-          propertyName: "members",
+          propertyName: "addresses",
           propertyValuesUnequal,
           type: "Property" as const,
         })),
       )
       .chain(() =>
-        ((left, right) => arrayEquals(left, right, booleanEquals))(
-          this.parentOrganizations,
-          other.parentOrganizations,
+        ((left, right) =>
+          arrayEquals(left, right, (left, right) => left.equals(right)))(
+          this.contactPoints,
+          other.contactPoints,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "contactPoints",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => arrayEquals(left, right, booleanEquals))(
+          this.members,
+          other.members,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "members",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => arrayEquals(left, right, booleanEquals))(
+          this.parentOrganizations,
+          other.parentOrganizations,
         ).mapLeft((propertyValuesUnequal) => ({
           left: this,
           right: other,
@@ -2209,6 +3212,14 @@ export class Organization extends Thing {
     },
   >(_hasher: HasherT): HasherT {
     super.hash(_hasher);
+    for (const _item0 of this.addresses) {
+      _item0.hash(_hasher);
+    }
+
+    for (const _item0 of this.contactPoints) {
+      _item0.hash(_hasher);
+    }
+
     _hasher.update(this.identifier.value);
     for (const _item0 of this.members) {
       _hasher.update(_item0.termType);
@@ -2229,6 +3240,8 @@ export class Organization extends Thing {
   }
 
   override toJson(): {
+    readonly addresses: readonly ReturnType<PostalAddress["toJson"]>[];
+    readonly contactPoints: readonly ReturnType<ContactPoint["toJson"]>[];
     readonly members: readonly { readonly "@id": string }[];
     readonly parentOrganizations: readonly { readonly "@id": string }[];
     readonly subOrganizations: readonly { readonly "@id": string }[];
@@ -2236,6 +3249,8 @@ export class Organization extends Thing {
     return JSON.parse(
       JSON.stringify({
         ...super.toJson(),
+        addresses: this.addresses.map((_item) => _item.toJson()),
+        contactPoints: this.contactPoints.map((_item) => _item.toJson()),
         members: this.members.map((_item) => ({ "@id": _item.value })),
         parentOrganizations: this.parentOrganizations.map((_item) => ({
           "@id": _item.value,
@@ -2270,6 +3285,18 @@ export class Organization extends Thing {
       );
     }
 
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/address"),
+      this.addresses.map((_item) =>
+        _item.toRdf({ mutateGraph: mutateGraph, resourceSet: resourceSet }),
+      ),
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/contactPoint"),
+      this.contactPoints.map((_item) =>
+        _item.toRdf({ mutateGraph: mutateGraph, resourceSet: resourceSet }),
+      ),
+    );
     _resource.add(
       dataFactory.namedNode("http://schema.org/member"),
       this.members.map((_item) => _item),
@@ -2296,6 +3323,8 @@ export namespace Organization {
   ): purify.Either<
     zod.ZodError,
     {
+      addresses: readonly PostalAddress[];
+      contactPoints: readonly ContactPoint[];
       identifier: rdfjs.NamedNode;
       members: rdfjs.NamedNode[];
       parentOrganizations: rdfjs.NamedNode[];
@@ -2314,6 +3343,12 @@ export namespace Organization {
     }
 
     const _super0 = _super0Either.unsafeCoerce();
+    const addresses = _jsonObject["addresses"].map((_item) =>
+      PostalAddress.fromJson(_item).unsafeCoerce(),
+    );
+    const contactPoints = _jsonObject["contactPoints"].map((_item) =>
+      ContactPoint.fromJson(_item).unsafeCoerce(),
+    );
     const identifier = dataFactory.namedNode(_jsonObject["@id"]);
     const members = _jsonObject["members"].map((_item) =>
       dataFactory.namedNode(_item["@id"]),
@@ -2326,6 +3361,8 @@ export namespace Organization {
     );
     return purify.Either.of({
       ..._super0,
+      addresses,
+      contactPoints,
       identifier,
       members,
       parentOrganizations,
@@ -2355,6 +3392,8 @@ export namespace Organization {
   }): purify.Either<
     rdfjsResource.Resource.ValueError,
     {
+      addresses: readonly PostalAddress[];
+      contactPoints: readonly ContactPoint[];
       identifier: rdfjs.NamedNode;
       members: rdfjs.NamedNode[];
       parentOrganizations: rdfjs.NamedNode[];
@@ -2387,6 +3426,66 @@ export namespace Organization {
       );
     }
 
+    const _addressesEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      readonly PostalAddress[]
+    > = purify.Either.of([
+      ..._resource
+        .values(dataFactory.namedNode("http://schema.org/address"), {
+          unique: true,
+        })
+        .flatMap((_item) =>
+          _item
+            .toValues()
+            .head()
+            .chain((value) => value.toNamedResource())
+            .chain((_resource) =>
+              PostalAddress.fromRdf({
+                ..._context,
+                ignoreRdfType: true,
+                languageIn: _languageIn,
+                resource: _resource,
+              }),
+            )
+            .toMaybe()
+            .toList(),
+        ),
+    ]);
+    if (_addressesEither.isLeft()) {
+      return _addressesEither;
+    }
+
+    const addresses = _addressesEither.unsafeCoerce();
+    const _contactPointsEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      readonly ContactPoint[]
+    > = purify.Either.of([
+      ..._resource
+        .values(dataFactory.namedNode("http://schema.org/contactPoint"), {
+          unique: true,
+        })
+        .flatMap((_item) =>
+          _item
+            .toValues()
+            .head()
+            .chain((value) => value.toNamedResource())
+            .chain((_resource) =>
+              ContactPoint.fromRdf({
+                ..._context,
+                ignoreRdfType: true,
+                languageIn: _languageIn,
+                resource: _resource,
+              }),
+            )
+            .toMaybe()
+            .toList(),
+        ),
+    ]);
+    if (_contactPointsEither.isLeft()) {
+      return _contactPointsEither;
+    }
+
+    const contactPoints = _contactPointsEither.unsafeCoerce();
     const identifier = _resource.identifier;
     const _membersEither: purify.Either<
       rdfjsResource.Resource.ValueError,
@@ -2456,6 +3555,8 @@ export namespace Organization {
     const subOrganizations = _subOrganizationsEither.unsafeCoerce();
     return purify.Either.of({
       ..._super0,
+      addresses,
+      contactPoints,
       identifier,
       members,
       parentOrganizations,
@@ -2486,6 +3587,12 @@ export namespace Organization {
     return {
       elements: [
         Thing.thingJsonUiSchema({ scopePrefix }),
+        PostalAddress.postalAddressJsonUiSchema({
+          scopePrefix: `${scopePrefix}/properties/addresses`,
+        }),
+        ContactPoint.contactPointJsonUiSchema({
+          scopePrefix: `${scopePrefix}/properties/contactPoints`,
+        }),
         { scope: `${scopePrefix}/properties/members`, type: "Control" },
         {
           scope: `${scopePrefix}/properties/parentOrganizations`,
@@ -2504,6 +3611,8 @@ export namespace Organization {
   export function organizationJsonZodSchema() {
     return Thing.thingJsonZodSchema().merge(
       zod.object({
+        addresses: PostalAddress.postalAddressJsonZodSchema().array(),
+        contactPoints: ContactPoint.contactPointJsonZodSchema().array(),
         "@id": zod.string().min(1),
         members: zod.object({ "@id": zod.string().min(1) }).array(),
         parentOrganizations: zod.object({ "@id": zod.string().min(1) }).array(),
@@ -2513,23 +3622,73 @@ export namespace Organization {
     );
   }
 }
-export class Occupation extends Intangible {
-  readonly identifier: rdfjs.NamedNode;
-  override readonly type = "Occupation";
+
+export abstract class Place extends Thing {
+  readonly containedInPlace: purify.Maybe<rdfjs.NamedNode>;
+  containsPlace: rdfjs.NamedNode[];
+  abstract override readonly identifier: rdfjs.NamedNode;
+  abstract override readonly type: "AdministrativeArea";
 
   constructor(
     parameters: {
-      readonly identifier: rdfjs.NamedNode | string;
-    } & ConstructorParameters<typeof Intangible>[0],
+      readonly containedInPlace?:
+        | rdfjs.NamedNode
+        | purify.Maybe<rdfjs.NamedNode>
+        | string;
+      readonly containsPlace?: readonly rdfjs.NamedNode[];
+    } & ConstructorParameters<typeof Thing>[0],
   ) {
     super(parameters);
-    if (typeof parameters.identifier === "object") {
-      this.identifier = parameters.identifier;
-    } else if (typeof parameters.identifier === "string") {
-      this.identifier = dataFactory.namedNode(parameters.identifier);
+    if (purify.Maybe.isMaybe(parameters.containedInPlace)) {
+      this.containedInPlace = parameters.containedInPlace;
+    } else if (typeof parameters.containedInPlace === "object") {
+      this.containedInPlace = purify.Maybe.of(parameters.containedInPlace);
+    } else if (typeof parameters.containedInPlace === "string") {
+      this.containedInPlace = purify.Maybe.of(
+        dataFactory.namedNode(parameters.containedInPlace),
+      );
+    } else if (typeof parameters.containedInPlace === "undefined") {
+      this.containedInPlace = purify.Maybe.empty();
     } else {
-      this.identifier = parameters.identifier as never;
+      this.containedInPlace = parameters.containedInPlace as never;
     }
+
+    if (typeof parameters.containsPlace === "undefined") {
+      this.containsPlace = [];
+    } else if (Array.isArray(parameters.containsPlace)) {
+      this.containsPlace = parameters.containsPlace;
+    } else {
+      this.containsPlace = parameters.containsPlace as never;
+    }
+  }
+
+  override equals(other: Place): EqualsResult {
+    return super
+      .equals(other)
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, booleanEquals))(
+          this.containedInPlace,
+          other.containedInPlace,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "containedInPlace",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => arrayEquals(left, right, booleanEquals))(
+          this.containsPlace,
+          other.containsPlace,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "containsPlace",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      );
   }
 
   override hash<
@@ -2538,12 +3697,36 @@ export class Occupation extends Intangible {
     },
   >(_hasher: HasherT): HasherT {
     super.hash(_hasher);
-    _hasher.update(this.identifier.value);
+    this.containedInPlace.ifJust((_value0) => {
+      _hasher.update(_value0.termType);
+      _hasher.update(_value0.value);
+    });
+    for (const _item0 of this.containsPlace) {
+      _hasher.update(_item0.termType);
+      _hasher.update(_item0.value);
+    }
+
     return _hasher;
   }
 
+  override toJson(): {
+    readonly containedInPlace: { readonly "@id": string } | undefined;
+    readonly containsPlace: readonly { readonly "@id": string }[];
+  } & ReturnType<Thing["toJson"]> {
+    return JSON.parse(
+      JSON.stringify({
+        ...super.toJson(),
+        containedInPlace: this.containedInPlace
+          .map((_item) => ({ "@id": _item.value }))
+          .extract(),
+        containsPlace: this.containsPlace.map((_item) => ({
+          "@id": _item.value,
+        })),
+      } satisfies ReturnType<Place["toJson"]>),
+    );
+  }
+
   override toRdf({
-    ignoreRdfType,
     mutateGraph,
     resourceSet,
   }: {
@@ -2556,15 +3739,14 @@ export class Occupation extends Intangible {
       mutateGraph,
       resourceSet,
     });
-    if (!ignoreRdfType) {
-      _resource.add(
-        _resource.dataFactory.namedNode(
-          "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
-        ),
-        _resource.dataFactory.namedNode("http://schema.org/Occupation"),
-      );
-    }
-
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/containedInPlace"),
+      this.containedInPlace,
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/containsPlace"),
+      this.containsPlace.map((_item) => _item),
+    );
     return _resource;
   }
 
@@ -2573,37 +3755,42 @@ export class Occupation extends Intangible {
   }
 }
 
-export namespace Occupation {
+export namespace Place {
   export function propertiesFromJson(
     _json: unknown,
   ): purify.Either<
     zod.ZodError,
-    { identifier: rdfjs.NamedNode } & UnwrapR<
-      ReturnType<typeof Intangible.propertiesFromJson>
-    >
+    {
+      containedInPlace: purify.Maybe<rdfjs.NamedNode>;
+      containsPlace: rdfjs.NamedNode[];
+      identifier: rdfjs.NamedNode;
+    } & UnwrapR<ReturnType<typeof Thing.propertiesFromJson>>
   > {
-    const _jsonSafeParseResult = occupationJsonZodSchema().safeParse(_json);
+    const _jsonSafeParseResult = placeJsonZodSchema().safeParse(_json);
     if (!_jsonSafeParseResult.success) {
       return purify.Left(_jsonSafeParseResult.error);
     }
 
     const _jsonObject = _jsonSafeParseResult.data;
-    const _super0Either = Intangible.propertiesFromJson(_jsonObject);
+    const _super0Either = Thing.propertiesFromJson(_jsonObject);
     if (_super0Either.isLeft()) {
       return _super0Either;
     }
 
     const _super0 = _super0Either.unsafeCoerce();
-    const identifier = dataFactory.namedNode(_jsonObject["@id"]);
-    return purify.Either.of({ ..._super0, identifier });
-  }
-
-  export function fromJson(
-    json: unknown,
-  ): purify.Either<zod.ZodError, Occupation> {
-    return Occupation.propertiesFromJson(json).map(
-      (properties) => new Occupation(properties),
+    const containedInPlace = purify.Maybe.fromNullable(
+      _jsonObject["containedInPlace"],
+    ).map((_item) => dataFactory.namedNode(_item["@id"]));
+    const containsPlace = _jsonObject["containsPlace"].map((_item) =>
+      dataFactory.namedNode(_item["@id"]),
     );
+    const identifier = dataFactory.namedNode(_jsonObject["@id"]);
+    return purify.Either.of({
+      ..._super0,
+      containedInPlace,
+      containsPlace,
+      identifier,
+    });
   }
 
   export function propertiesFromRdf({
@@ -2619,11 +3806,13 @@ export namespace Occupation {
     resource: rdfjsResource.Resource<rdfjs.NamedNode>;
   }): purify.Either<
     rdfjsResource.Resource.ValueError,
-    { identifier: rdfjs.NamedNode } & UnwrapR<
-      ReturnType<typeof Intangible.propertiesFromRdf>
-    >
+    {
+      containedInPlace: purify.Maybe<rdfjs.NamedNode>;
+      containsPlace: rdfjs.NamedNode[];
+      identifier: rdfjs.NamedNode;
+    } & UnwrapR<ReturnType<typeof Thing.propertiesFromRdf>>
   > {
-    const _super0Either = Intangible.propertiesFromRdf({
+    const _super0Either = Thing.propertiesFromRdf({
       ..._context,
       ignoreRdfType: true,
       languageIn: _languageIn,
@@ -2634,73 +3823,134 @@ export namespace Occupation {
     }
 
     const _super0 = _super0Either.unsafeCoerce();
-    if (
-      !_ignoreRdfType &&
-      !_resource.isInstanceOf(
-        dataFactory.namedNode("http://schema.org/Occupation"),
-      )
-    ) {
-      return purify.Left(
-        new rdfjsResource.Resource.ValueError({
-          focusResource: _resource,
-          message: `${rdfjsResource.Resource.Identifier.toString(_resource.identifier)} has unexpected RDF type`,
-          predicate: dataFactory.namedNode("http://schema.org/Occupation"),
-        }),
-      );
+    const _containedInPlaceEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<rdfjs.NamedNode>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/containedInPlace"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toIri())
+        .toMaybe(),
+    );
+    if (_containedInPlaceEither.isLeft()) {
+      return _containedInPlaceEither;
     }
 
-    const identifier = _resource.identifier;
-    return purify.Either.of({ ..._super0, identifier });
-  }
+    const containedInPlace = _containedInPlaceEither.unsafeCoerce();
+    const _containsPlaceEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      rdfjs.NamedNode[]
+    > = purify.Either.of([
+      ..._resource
+        .values(dataFactory.namedNode("http://schema.org/containsPlace"), {
+          unique: true,
+        })
+        .flatMap((_item) =>
+          _item
+            .toValues()
+            .head()
+            .chain((_value) => _value.toIri())
+            .toMaybe()
+            .toList(),
+        ),
+    ]);
+    if (_containsPlaceEither.isLeft()) {
+      return _containsPlaceEither;
+    }
 
-  export function fromRdf(
-    parameters: Parameters<typeof Occupation.propertiesFromRdf>[0],
-  ): purify.Either<rdfjsResource.Resource.ValueError, Occupation> {
-    return Occupation.propertiesFromRdf(parameters).map(
-      (properties) => new Occupation(properties),
-    );
+    const containsPlace = _containsPlaceEither.unsafeCoerce();
+    const identifier = _resource.identifier;
+    return purify.Either.of({
+      ..._super0,
+      containedInPlace,
+      containsPlace,
+      identifier,
+    });
   }
 
-  export const fromRdfType: rdfjs.NamedNode<string> = dataFactory.namedNode(
-    "http://schema.org/Occupation",
-  );
-
   export function jsonSchema() {
-    return zodToJsonSchema(occupationJsonZodSchema());
+    return zodToJsonSchema(placeJsonZodSchema());
   }
 
-  export function occupationJsonUiSchema(parameters?: {
-    scopePrefix?: string;
-  }) {
+  export function placeJsonUiSchema(parameters?: { scopePrefix?: string }) {
     const scopePrefix = parameters?.scopePrefix ?? "#";
     return {
-      elements: [Intangible.intangibleJsonUiSchema({ scopePrefix })],
-      label: "Occupation",
+      elements: [
+        Thing.thingJsonUiSchema({ scopePrefix }),
+        {
+          scope: `${scopePrefix}/properties/containedInPlace`,
+          type: "Control",
+        },
+        { scope: `${scopePrefix}/properties/containsPlace`, type: "Control" },
+      ],
+      label: "Place",
       type: "Group",
     };
   }
 
-  export function occupationJsonZodSchema() {
-    return Intangible.intangibleJsonZodSchema().merge(
+  export function placeJsonZodSchema() {
+    return Thing.thingJsonZodSchema().merge(
       zod.object({
+        containedInPlace: zod.object({ "@id": zod.string().min(1) }).optional(),
+        containsPlace: zod.object({ "@id": zod.string().min(1) }).array(),
         "@id": zod.string().min(1),
-        type: zod.literal("Occupation"),
+        type: zod.literal("AdministrativeArea"),
       }),
     );
   }
 }
-export class QuantitiveValue extends StructuredValue {
+
+export class AdministrativeArea extends Place {
+  readonly congress: purify.Maybe<number>;
+  readonly district: purify.Maybe<number>;
+  readonly fipsCode: purify.Maybe<string>;
   readonly identifier: rdfjs.NamedNode;
-  override readonly type = "QuantitiveValue";
-  readonly value: purify.Maybe<number>;
+  readonly state: purify.Maybe<string>;
+  override readonly type = "AdministrativeArea";
 
   constructor(
     parameters: {
+      readonly congress?: number | purify.Maybe<number>;
+      readonly district?: number | purify.Maybe<number>;
+      readonly fipsCode?: purify.Maybe<string> | string;
       readonly identifier: rdfjs.NamedNode | string;
-      readonly value?: number | purify.Maybe<number>;
-    } & ConstructorParameters<typeof StructuredValue>[0],
+      readonly state?: purify.Maybe<string> | string;
+    } & ConstructorParameters<typeof Place>[0],
   ) {
     super(parameters);
+    if (purify.Maybe.isMaybe(parameters.congress)) {
+      this.congress = parameters.congress;
+    } else if (typeof parameters.congress === "number") {
+      this.congress = purify.Maybe.of(parameters.congress);
+    } else if (typeof parameters.congress === "undefined") {
+      this.congress = purify.Maybe.empty();
+    } else {
+      this.congress = parameters.congress as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.district)) {
+      this.district = parameters.district;
+    } else if (typeof parameters.district === "number") {
+      this.district = purify.Maybe.of(parameters.district);
+    } else if (typeof parameters.district === "undefined") {
+      this.district = purify.Maybe.empty();
+    } else {
+      this.district = parameters.district as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.fipsCode)) {
+      this.fipsCode = parameters.fipsCode;
+    } else if (typeof parameters.fipsCode === "string") {
+      this.fipsCode = purify.Maybe.of(parameters.fipsCode);
+    } else if (typeof parameters.fipsCode === "undefined") {
+      this.fipsCode = purify.Maybe.empty();
+    } else {
+      this.fipsCode = parameters.fipsCode as never;
+    }
+
     if (typeof parameters.identifier === "object") {
       this.identifier = parameters.identifier;
     } else if (typeof parameters.identifier === "string") {
@@ -2709,28 +3959,64 @@ export class QuantitiveValue extends StructuredValue {
       this.identifier = parameters.identifier as never;
     }
 
-    if (purify.Maybe.isMaybe(parameters.value)) {
-      this.value = parameters.value;
-    } else if (typeof parameters.value === "number") {
-      this.value = purify.Maybe.of(parameters.value);
-    } else if (typeof parameters.value === "undefined") {
-      this.value = purify.Maybe.empty();
+    if (purify.Maybe.isMaybe(parameters.state)) {
+      this.state = parameters.state;
+    } else if (typeof parameters.state === "string") {
+      this.state = purify.Maybe.of(parameters.state);
+    } else if (typeof parameters.state === "undefined") {
+      this.state = purify.Maybe.empty();
     } else {
-      this.value = parameters.value as never;
+      this.state = parameters.state as never;
     }
   }
 
-  override equals(other: QuantitiveValue): EqualsResult {
+  override equals(other: AdministrativeArea): EqualsResult {
     return super
       .equals(other)
       .chain(() =>
         ((left, right) => maybeEquals(left, right, strictEquals))(
-          this.value,
-          other.value,
+          this.congress,
+          other.congress,
         ).mapLeft((propertyValuesUnequal) => ({
           left: this,
           right: other,
-          propertyName: "value",
+          propertyName: "congress",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.district,
+          other.district,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "district",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.fipsCode,
+          other.fipsCode,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "fipsCode",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.state,
+          other.state,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "state",
           propertyValuesUnequal,
           type: "Property" as const,
         })),
@@ -2743,21 +4029,36 @@ export class QuantitiveValue extends StructuredValue {
     },
   >(_hasher: HasherT): HasherT {
     super.hash(_hasher);
-    _hasher.update(this.identifier.value);
-    this.value.ifJust((_value0) => {
+    this.congress.ifJust((_value0) => {
       _hasher.update(_value0.toString());
     });
+    this.district.ifJust((_value0) => {
+      _hasher.update(_value0.toString());
+    });
+    this.fipsCode.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    _hasher.update(this.identifier.value);
+    this.state.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
     return _hasher;
   }
 
-  override toJson(): { readonly value: number | undefined } & ReturnType<
-    StructuredValue["toJson"]
-  > {
+  override toJson(): {
+    readonly congress: number | undefined;
+    readonly district: number | undefined;
+    readonly fipsCode: string | undefined;
+    readonly state: string | undefined;
+  } & ReturnType<Place["toJson"]> {
     return JSON.parse(
       JSON.stringify({
         ...super.toJson(),
-        value: this.value.map((_item) => _item).extract(),
-      } satisfies ReturnType<QuantitiveValue["toJson"]>),
+        congress: this.congress.map((_item) => _item).extract(),
+        district: this.district.map((_item) => _item).extract(),
+        fipsCode: this.fipsCode.map((_item) => _item).extract(),
+        state: this.state.map((_item) => _item).extract(),
+      } satisfies ReturnType<AdministrativeArea["toJson"]>),
     );
   }
 
@@ -2780,11 +4081,34 @@ export class QuantitiveValue extends StructuredValue {
         _resource.dataFactory.namedNode(
           "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
         ),
-        _resource.dataFactory.namedNode("http://schema.org/QuantitativeValue"),
+        _resource.dataFactory.namedNode("http://schema.org/AdministrativeArea"),
       );
     }
 
-    _resource.add(dataFactory.namedNode("http://schema.org/value"), this.value);
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#congress",
+      ),
+      this.congress,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#district",
+      ),
+      this.district,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#fipsCode",
+      ),
+      this.fipsCode,
+    );
+    _resource.add(
+      dataFactory.namedNode(
+        "http://purl.archive.org/purl/prosopa/ontology#state",
+      ),
+      this.state,
+    );
     return _resource;
   }
 
@@ -2793,38 +4117,52 @@ export class QuantitiveValue extends StructuredValue {
   }
 }
 
-export namespace QuantitiveValue {
+export namespace AdministrativeArea {
   export function propertiesFromJson(
     _json: unknown,
   ): purify.Either<
     zod.ZodError,
-    { identifier: rdfjs.NamedNode; value: purify.Maybe<number> } & UnwrapR<
-      ReturnType<typeof StructuredValue.propertiesFromJson>
-    >
+    {
+      congress: purify.Maybe<number>;
+      district: purify.Maybe<number>;
+      fipsCode: purify.Maybe<string>;
+      identifier: rdfjs.NamedNode;
+      state: purify.Maybe<string>;
+    } & UnwrapR<ReturnType<typeof Place.propertiesFromJson>>
   > {
     const _jsonSafeParseResult =
-      quantitiveValueJsonZodSchema().safeParse(_json);
+      administrativeAreaJsonZodSchema().safeParse(_json);
     if (!_jsonSafeParseResult.success) {
       return purify.Left(_jsonSafeParseResult.error);
     }
 
     const _jsonObject = _jsonSafeParseResult.data;
-    const _super0Either = StructuredValue.propertiesFromJson(_jsonObject);
+    const _super0Either = Place.propertiesFromJson(_jsonObject);
     if (_super0Either.isLeft()) {
       return _super0Either;
     }
 
     const _super0 = _super0Either.unsafeCoerce();
+    const congress = purify.Maybe.fromNullable(_jsonObject["congress"]);
+    const district = purify.Maybe.fromNullable(_jsonObject["district"]);
+    const fipsCode = purify.Maybe.fromNullable(_jsonObject["fipsCode"]);
     const identifier = dataFactory.namedNode(_jsonObject["@id"]);
-    const value = purify.Maybe.fromNullable(_jsonObject["value"]);
-    return purify.Either.of({ ..._super0, identifier, value });
+    const state = purify.Maybe.fromNullable(_jsonObject["state"]);
+    return purify.Either.of({
+      ..._super0,
+      congress,
+      district,
+      fipsCode,
+      identifier,
+      state,
+    });
   }
 
   export function fromJson(
     json: unknown,
-  ): purify.Either<zod.ZodError, QuantitiveValue> {
-    return QuantitiveValue.propertiesFromJson(json).map(
-      (properties) => new QuantitiveValue(properties),
+  ): purify.Either<zod.ZodError, AdministrativeArea> {
+    return AdministrativeArea.propertiesFromJson(json).map(
+      (properties) => new AdministrativeArea(properties),
     );
   }
 
@@ -2841,11 +4179,15 @@ export namespace QuantitiveValue {
     resource: rdfjsResource.Resource<rdfjs.NamedNode>;
   }): purify.Either<
     rdfjsResource.Resource.ValueError,
-    { identifier: rdfjs.NamedNode; value: purify.Maybe<number> } & UnwrapR<
-      ReturnType<typeof StructuredValue.propertiesFromRdf>
-    >
+    {
+      congress: purify.Maybe<number>;
+      district: purify.Maybe<number>;
+      fipsCode: purify.Maybe<string>;
+      identifier: rdfjs.NamedNode;
+      state: purify.Maybe<string>;
+    } & UnwrapR<ReturnType<typeof Place.propertiesFromRdf>>
   > {
-    const _super0Either = StructuredValue.propertiesFromRdf({
+    const _super0Either = Place.propertiesFromRdf({
       ..._context,
       ignoreRdfType: true,
       languageIn: _languageIn,
@@ -2859,7 +4201,7 @@ export namespace QuantitiveValue {
     if (
       !_ignoreRdfType &&
       !_resource.isInstanceOf(
-        dataFactory.namedNode("http://schema.org/QuantitativeValue"),
+        dataFactory.namedNode("http://schema.org/AdministrativeArea"),
       )
     ) {
       return purify.Left(
@@ -2867,73 +4209,1503 @@ export namespace QuantitiveValue {
           focusResource: _resource,
           message: `${rdfjsResource.Resource.Identifier.toString(_resource.identifier)} has unexpected RDF type`,
           predicate: dataFactory.namedNode(
-            "http://schema.org/QuantitativeValue",
+            "http://schema.org/AdministrativeArea",
           ),
         }),
       );
     }
 
-    const identifier = _resource.identifier;
-    const _valueEither: purify.Either<
+    const _congressEither: purify.Either<
       rdfjsResource.Resource.ValueError,
       purify.Maybe<number>
     > = purify.Either.of(
       _resource
-        .values(dataFactory.namedNode("http://schema.org/value"), {
-          unique: true,
-        })
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#congress",
+          ),
+          { unique: true },
+        )
         .head()
         .chain((_value) => _value.toNumber())
         .toMaybe(),
     );
-    if (_valueEither.isLeft()) {
-      return _valueEither;
+    if (_congressEither.isLeft()) {
+      return _congressEither;
     }
 
-    const value = _valueEither.unsafeCoerce();
-    return purify.Either.of({ ..._super0, identifier, value });
+    const congress = _congressEither.unsafeCoerce();
+    const _districtEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<number>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#district",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toNumber())
+        .toMaybe(),
+    );
+    if (_districtEither.isLeft()) {
+      return _districtEither;
+    }
+
+    const district = _districtEither.unsafeCoerce();
+    const _fipsCodeEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#fipsCode",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_fipsCodeEither.isLeft()) {
+      return _fipsCodeEither;
+    }
+
+    const fipsCode = _fipsCodeEither.unsafeCoerce();
+    const identifier = _resource.identifier;
+    const _stateEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(
+          dataFactory.namedNode(
+            "http://purl.archive.org/purl/prosopa/ontology#state",
+          ),
+          { unique: true },
+        )
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_stateEither.isLeft()) {
+      return _stateEither;
+    }
+
+    const state = _stateEither.unsafeCoerce();
+    return purify.Either.of({
+      ..._super0,
+      congress,
+      district,
+      fipsCode,
+      identifier,
+      state,
+    });
   }
 
   export function fromRdf(
-    parameters: Parameters<typeof QuantitiveValue.propertiesFromRdf>[0],
-  ): purify.Either<rdfjsResource.Resource.ValueError, QuantitiveValue> {
-    return QuantitiveValue.propertiesFromRdf(parameters).map(
-      (properties) => new QuantitiveValue(properties),
+    parameters: Parameters<typeof AdministrativeArea.propertiesFromRdf>[0],
+  ): purify.Either<rdfjsResource.Resource.ValueError, AdministrativeArea> {
+    return AdministrativeArea.propertiesFromRdf(parameters).map(
+      (properties) => new AdministrativeArea(properties),
     );
   }
 
   export const fromRdfType: rdfjs.NamedNode<string> = dataFactory.namedNode(
-    "http://schema.org/QuantitativeValue",
+    "http://schema.org/AdministrativeArea",
   );
 
   export function jsonSchema() {
-    return zodToJsonSchema(quantitiveValueJsonZodSchema());
+    return zodToJsonSchema(administrativeAreaJsonZodSchema());
   }
 
-  export function quantitiveValueJsonUiSchema(parameters?: {
+  export function administrativeAreaJsonUiSchema(parameters?: {
     scopePrefix?: string;
   }) {
     const scopePrefix = parameters?.scopePrefix ?? "#";
     return {
       elements: [
-        StructuredValue.structuredValueJsonUiSchema({ scopePrefix }),
-        { scope: `${scopePrefix}/properties/value`, type: "Control" },
+        Place.placeJsonUiSchema({ scopePrefix }),
+        { scope: `${scopePrefix}/properties/congress`, type: "Control" },
+        { scope: `${scopePrefix}/properties/district`, type: "Control" },
+        { scope: `${scopePrefix}/properties/fipsCode`, type: "Control" },
+        { scope: `${scopePrefix}/properties/state`, type: "Control" },
       ],
-      label: "QuantitiveValue",
+      label: "AdministrativeArea",
       type: "Group",
     };
   }
 
-  export function quantitiveValueJsonZodSchema() {
-    return StructuredValue.structuredValueJsonZodSchema().merge(
+  export function administrativeAreaJsonZodSchema() {
+    return Place.placeJsonZodSchema().merge(
       zod.object({
+        congress: zod.number().optional(),
+        district: zod.number().optional(),
+        fipsCode: zod.string().optional(),
         "@id": zod.string().min(1),
-        type: zod.literal("QuantitiveValue"),
-        value: zod.number().optional(),
+        state: zod.string().optional(),
+        type: zod.literal("AdministrativeArea"),
       }),
     );
   }
 }
+
+export class Occupation extends Intangible {
+  readonly identifier: rdfjs.NamedNode;
+  override readonly type = "Occupation";
+
+  constructor(
+    parameters: {
+      readonly identifier: rdfjs.NamedNode | string;
+    } & ConstructorParameters<typeof Intangible>[0],
+  ) {
+    super(parameters);
+    if (typeof parameters.identifier === "object") {
+      this.identifier = parameters.identifier;
+    } else if (typeof parameters.identifier === "string") {
+      this.identifier = dataFactory.namedNode(parameters.identifier);
+    } else {
+      this.identifier = parameters.identifier as never;
+    }
+  }
+
+  override hash<
+    HasherT extends {
+      update: (message: string | number[] | ArrayBuffer | Uint8Array) => void;
+    },
+  >(_hasher: HasherT): HasherT {
+    super.hash(_hasher);
+    _hasher.update(this.identifier.value);
+    return _hasher;
+  }
+
+  override toRdf({
+    ignoreRdfType,
+    mutateGraph,
+    resourceSet,
+  }: {
+    ignoreRdfType?: boolean;
+    mutateGraph?: rdfjsResource.MutableResource.MutateGraph;
+    resourceSet: rdfjsResource.MutableResourceSet;
+  }): rdfjsResource.MutableResource<rdfjs.NamedNode> {
+    const _resource = super.toRdf({
+      ignoreRdfType: true,
+      mutateGraph,
+      resourceSet,
+    });
+    if (!ignoreRdfType) {
+      _resource.add(
+        _resource.dataFactory.namedNode(
+          "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
+        ),
+        _resource.dataFactory.namedNode("http://schema.org/Occupation"),
+      );
+    }
+
+    return _resource;
+  }
+
+  override toString(): string {
+    return JSON.stringify(this.toJson());
+  }
+}
+
+export namespace Occupation {
+  export function propertiesFromJson(
+    _json: unknown,
+  ): purify.Either<
+    zod.ZodError,
+    { identifier: rdfjs.NamedNode } & UnwrapR<
+      ReturnType<typeof Intangible.propertiesFromJson>
+    >
+  > {
+    const _jsonSafeParseResult = occupationJsonZodSchema().safeParse(_json);
+    if (!_jsonSafeParseResult.success) {
+      return purify.Left(_jsonSafeParseResult.error);
+    }
+
+    const _jsonObject = _jsonSafeParseResult.data;
+    const _super0Either = Intangible.propertiesFromJson(_jsonObject);
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    const identifier = dataFactory.namedNode(_jsonObject["@id"]);
+    return purify.Either.of({ ..._super0, identifier });
+  }
+
+  export function fromJson(
+    json: unknown,
+  ): purify.Either<zod.ZodError, Occupation> {
+    return Occupation.propertiesFromJson(json).map(
+      (properties) => new Occupation(properties),
+    );
+  }
+
+  export function propertiesFromRdf({
+    ignoreRdfType: _ignoreRdfType,
+    languageIn: _languageIn,
+    resource: _resource,
+    // @ts-ignore
+    ..._context
+  }: {
+    [_index: string]: any;
+    ignoreRdfType?: boolean;
+    languageIn?: readonly string[];
+    resource: rdfjsResource.Resource<rdfjs.NamedNode>;
+  }): purify.Either<
+    rdfjsResource.Resource.ValueError,
+    { identifier: rdfjs.NamedNode } & UnwrapR<
+      ReturnType<typeof Intangible.propertiesFromRdf>
+    >
+  > {
+    const _super0Either = Intangible.propertiesFromRdf({
+      ..._context,
+      ignoreRdfType: true,
+      languageIn: _languageIn,
+      resource: _resource,
+    });
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    if (
+      !_ignoreRdfType &&
+      !_resource.isInstanceOf(
+        dataFactory.namedNode("http://schema.org/Occupation"),
+      )
+    ) {
+      return purify.Left(
+        new rdfjsResource.Resource.ValueError({
+          focusResource: _resource,
+          message: `${rdfjsResource.Resource.Identifier.toString(_resource.identifier)} has unexpected RDF type`,
+          predicate: dataFactory.namedNode("http://schema.org/Occupation"),
+        }),
+      );
+    }
+
+    const identifier = _resource.identifier;
+    return purify.Either.of({ ..._super0, identifier });
+  }
+
+  export function fromRdf(
+    parameters: Parameters<typeof Occupation.propertiesFromRdf>[0],
+  ): purify.Either<rdfjsResource.Resource.ValueError, Occupation> {
+    return Occupation.propertiesFromRdf(parameters).map(
+      (properties) => new Occupation(properties),
+    );
+  }
+
+  export const fromRdfType: rdfjs.NamedNode<string> = dataFactory.namedNode(
+    "http://schema.org/Occupation",
+  );
+
+  export function jsonSchema() {
+    return zodToJsonSchema(occupationJsonZodSchema());
+  }
+
+  export function occupationJsonUiSchema(parameters?: {
+    scopePrefix?: string;
+  }) {
+    const scopePrefix = parameters?.scopePrefix ?? "#";
+    return {
+      elements: [Intangible.intangibleJsonUiSchema({ scopePrefix })],
+      label: "Occupation",
+      type: "Group",
+    };
+  }
+
+  export function occupationJsonZodSchema() {
+    return Intangible.intangibleJsonZodSchema().merge(
+      zod.object({
+        "@id": zod.string().min(1),
+        type: zod.literal("Occupation"),
+      }),
+    );
+  }
+}
+export class QuantitiveValue extends StructuredValue {
+  readonly identifier: rdfjs.NamedNode;
+  override readonly type = "QuantitiveValue";
+  readonly value: purify.Maybe<number>;
+
+  constructor(
+    parameters: {
+      readonly identifier: rdfjs.NamedNode | string;
+      readonly value?: number | purify.Maybe<number>;
+    } & ConstructorParameters<typeof StructuredValue>[0],
+  ) {
+    super(parameters);
+    if (typeof parameters.identifier === "object") {
+      this.identifier = parameters.identifier;
+    } else if (typeof parameters.identifier === "string") {
+      this.identifier = dataFactory.namedNode(parameters.identifier);
+    } else {
+      this.identifier = parameters.identifier as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.value)) {
+      this.value = parameters.value;
+    } else if (typeof parameters.value === "number") {
+      this.value = purify.Maybe.of(parameters.value);
+    } else if (typeof parameters.value === "undefined") {
+      this.value = purify.Maybe.empty();
+    } else {
+      this.value = parameters.value as never;
+    }
+  }
+
+  override equals(other: QuantitiveValue): EqualsResult {
+    return super
+      .equals(other)
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.value,
+          other.value,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "value",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      );
+  }
+
+  override hash<
+    HasherT extends {
+      update: (message: string | number[] | ArrayBuffer | Uint8Array) => void;
+    },
+  >(_hasher: HasherT): HasherT {
+    super.hash(_hasher);
+    _hasher.update(this.identifier.value);
+    this.value.ifJust((_value0) => {
+      _hasher.update(_value0.toString());
+    });
+    return _hasher;
+  }
+
+  override toJson(): { readonly value: number | undefined } & ReturnType<
+    StructuredValue["toJson"]
+  > {
+    return JSON.parse(
+      JSON.stringify({
+        ...super.toJson(),
+        value: this.value.map((_item) => _item).extract(),
+      } satisfies ReturnType<QuantitiveValue["toJson"]>),
+    );
+  }
+
+  override toRdf({
+    ignoreRdfType,
+    mutateGraph,
+    resourceSet,
+  }: {
+    ignoreRdfType?: boolean;
+    mutateGraph?: rdfjsResource.MutableResource.MutateGraph;
+    resourceSet: rdfjsResource.MutableResourceSet;
+  }): rdfjsResource.MutableResource<rdfjs.NamedNode> {
+    const _resource = super.toRdf({
+      ignoreRdfType: true,
+      mutateGraph,
+      resourceSet,
+    });
+    if (!ignoreRdfType) {
+      _resource.add(
+        _resource.dataFactory.namedNode(
+          "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
+        ),
+        _resource.dataFactory.namedNode("http://schema.org/QuantitativeValue"),
+      );
+    }
+
+    _resource.add(dataFactory.namedNode("http://schema.org/value"), this.value);
+    return _resource;
+  }
+
+  override toString(): string {
+    return JSON.stringify(this.toJson());
+  }
+}
+
+export namespace QuantitiveValue {
+  export function propertiesFromJson(
+    _json: unknown,
+  ): purify.Either<
+    zod.ZodError,
+    { identifier: rdfjs.NamedNode; value: purify.Maybe<number> } & UnwrapR<
+      ReturnType<typeof StructuredValue.propertiesFromJson>
+    >
+  > {
+    const _jsonSafeParseResult =
+      quantitiveValueJsonZodSchema().safeParse(_json);
+    if (!_jsonSafeParseResult.success) {
+      return purify.Left(_jsonSafeParseResult.error);
+    }
+
+    const _jsonObject = _jsonSafeParseResult.data;
+    const _super0Either = StructuredValue.propertiesFromJson(_jsonObject);
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    const identifier = dataFactory.namedNode(_jsonObject["@id"]);
+    const value = purify.Maybe.fromNullable(_jsonObject["value"]);
+    return purify.Either.of({ ..._super0, identifier, value });
+  }
+
+  export function fromJson(
+    json: unknown,
+  ): purify.Either<zod.ZodError, QuantitiveValue> {
+    return QuantitiveValue.propertiesFromJson(json).map(
+      (properties) => new QuantitiveValue(properties),
+    );
+  }
+
+  export function propertiesFromRdf({
+    ignoreRdfType: _ignoreRdfType,
+    languageIn: _languageIn,
+    resource: _resource,
+    // @ts-ignore
+    ..._context
+  }: {
+    [_index: string]: any;
+    ignoreRdfType?: boolean;
+    languageIn?: readonly string[];
+    resource: rdfjsResource.Resource<rdfjs.NamedNode>;
+  }): purify.Either<
+    rdfjsResource.Resource.ValueError,
+    { identifier: rdfjs.NamedNode; value: purify.Maybe<number> } & UnwrapR<
+      ReturnType<typeof StructuredValue.propertiesFromRdf>
+    >
+  > {
+    const _super0Either = StructuredValue.propertiesFromRdf({
+      ..._context,
+      ignoreRdfType: true,
+      languageIn: _languageIn,
+      resource: _resource,
+    });
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    if (
+      !_ignoreRdfType &&
+      !_resource.isInstanceOf(
+        dataFactory.namedNode("http://schema.org/QuantitativeValue"),
+      )
+    ) {
+      return purify.Left(
+        new rdfjsResource.Resource.ValueError({
+          focusResource: _resource,
+          message: `${rdfjsResource.Resource.Identifier.toString(_resource.identifier)} has unexpected RDF type`,
+          predicate: dataFactory.namedNode(
+            "http://schema.org/QuantitativeValue",
+          ),
+        }),
+      );
+    }
+
+    const identifier = _resource.identifier;
+    const _valueEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<number>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/value"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toNumber())
+        .toMaybe(),
+    );
+    if (_valueEither.isLeft()) {
+      return _valueEither;
+    }
+
+    const value = _valueEither.unsafeCoerce();
+    return purify.Either.of({ ..._super0, identifier, value });
+  }
+
+  export function fromRdf(
+    parameters: Parameters<typeof QuantitiveValue.propertiesFromRdf>[0],
+  ): purify.Either<rdfjsResource.Resource.ValueError, QuantitiveValue> {
+    return QuantitiveValue.propertiesFromRdf(parameters).map(
+      (properties) => new QuantitiveValue(properties),
+    );
+  }
+
+  export const fromRdfType: rdfjs.NamedNode<string> = dataFactory.namedNode(
+    "http://schema.org/QuantitativeValue",
+  );
+
+  export function jsonSchema() {
+    return zodToJsonSchema(quantitiveValueJsonZodSchema());
+  }
+
+  export function quantitiveValueJsonUiSchema(parameters?: {
+    scopePrefix?: string;
+  }) {
+    const scopePrefix = parameters?.scopePrefix ?? "#";
+    return {
+      elements: [
+        StructuredValue.structuredValueJsonUiSchema({ scopePrefix }),
+        { scope: `${scopePrefix}/properties/value`, type: "Control" },
+      ],
+      label: "QuantitiveValue",
+      type: "Group",
+    };
+  }
+
+  export function quantitiveValueJsonZodSchema() {
+    return StructuredValue.structuredValueJsonZodSchema().merge(
+      zod.object({
+        "@id": zod.string().min(1),
+        type: zod.literal("QuantitiveValue"),
+        value: zod.number().optional(),
+      }),
+    );
+  }
+}
+export class ContactPoint extends StructuredValue {
+  readonly contactType: purify.Maybe<string>;
+  readonly email: purify.Maybe<string>;
+  readonly faxNumber: purify.Maybe<string>;
+  private _identifier: rdfjs.NamedNode | undefined;
+  readonly telephone: purify.Maybe<string>;
+  override readonly type = "ContactPoint";
+
+  constructor(
+    parameters: {
+      readonly contactType?: purify.Maybe<string> | string;
+      readonly email?: purify.Maybe<string> | string;
+      readonly faxNumber?: purify.Maybe<string> | string;
+      readonly identifier?: rdfjs.NamedNode | string;
+      readonly telephone?: purify.Maybe<string> | string;
+    } & ConstructorParameters<typeof StructuredValue>[0],
+  ) {
+    super(parameters);
+    if (purify.Maybe.isMaybe(parameters.contactType)) {
+      this.contactType = parameters.contactType;
+    } else if (typeof parameters.contactType === "string") {
+      this.contactType = purify.Maybe.of(parameters.contactType);
+    } else if (typeof parameters.contactType === "undefined") {
+      this.contactType = purify.Maybe.empty();
+    } else {
+      this.contactType = parameters.contactType as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.email)) {
+      this.email = parameters.email;
+    } else if (typeof parameters.email === "string") {
+      this.email = purify.Maybe.of(parameters.email);
+    } else if (typeof parameters.email === "undefined") {
+      this.email = purify.Maybe.empty();
+    } else {
+      this.email = parameters.email as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.faxNumber)) {
+      this.faxNumber = parameters.faxNumber;
+    } else if (typeof parameters.faxNumber === "string") {
+      this.faxNumber = purify.Maybe.of(parameters.faxNumber);
+    } else if (typeof parameters.faxNumber === "undefined") {
+      this.faxNumber = purify.Maybe.empty();
+    } else {
+      this.faxNumber = parameters.faxNumber as never;
+    }
+
+    if (typeof parameters.identifier === "object") {
+      this._identifier = parameters.identifier;
+    } else if (typeof parameters.identifier === "string") {
+      this._identifier = dataFactory.namedNode(parameters.identifier);
+    } else if (typeof parameters.identifier === "undefined") {
+    } else {
+      this._identifier = parameters.identifier as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.telephone)) {
+      this.telephone = parameters.telephone;
+    } else if (typeof parameters.telephone === "string") {
+      this.telephone = purify.Maybe.of(parameters.telephone);
+    } else if (typeof parameters.telephone === "undefined") {
+      this.telephone = purify.Maybe.empty();
+    } else {
+      this.telephone = parameters.telephone as never;
+    }
+  }
+
+  override get identifier(): rdfjs.NamedNode {
+    return typeof this._identifier !== "undefined"
+      ? this._identifier
+      : dataFactory.namedNode(
+          `urn:shaclmate:object:${this.type}:${this.hash(sha256.create())}`,
+        );
+  }
+
+  override equals(other: ContactPoint): EqualsResult {
+    return super
+      .equals(other)
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.contactType,
+          other.contactType,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "contactType",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.email,
+          other.email,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "email",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.faxNumber,
+          other.faxNumber,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "faxNumber",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.telephone,
+          other.telephone,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "telephone",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      );
+  }
+
+  override hash<
+    HasherT extends {
+      update: (message: string | number[] | ArrayBuffer | Uint8Array) => void;
+    },
+  >(_hasher: HasherT): HasherT {
+    super.hash(_hasher);
+    this.contactType.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.email.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.faxNumber.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.telephone.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    return _hasher;
+  }
+
+  override toJson(): {
+    readonly contactType: string | undefined;
+    readonly email: string | undefined;
+    readonly faxNumber: string | undefined;
+    readonly telephone: string | undefined;
+  } & ReturnType<StructuredValue["toJson"]> {
+    return JSON.parse(
+      JSON.stringify({
+        ...super.toJson(),
+        contactType: this.contactType.map((_item) => _item).extract(),
+        email: this.email.map((_item) => _item).extract(),
+        faxNumber: this.faxNumber.map((_item) => _item).extract(),
+        telephone: this.telephone.map((_item) => _item).extract(),
+      } satisfies ReturnType<ContactPoint["toJson"]>),
+    );
+  }
+
+  override toRdf({
+    ignoreRdfType,
+    mutateGraph,
+    resourceSet,
+  }: {
+    ignoreRdfType?: boolean;
+    mutateGraph?: rdfjsResource.MutableResource.MutateGraph;
+    resourceSet: rdfjsResource.MutableResourceSet;
+  }): rdfjsResource.MutableResource<rdfjs.NamedNode> {
+    const _resource = super.toRdf({
+      ignoreRdfType: true,
+      mutateGraph,
+      resourceSet,
+    });
+    if (!ignoreRdfType) {
+      _resource.add(
+        _resource.dataFactory.namedNode(
+          "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
+        ),
+        _resource.dataFactory.namedNode("http://schema.org/ContactPoint"),
+      );
+    }
+
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/contactType"),
+      this.contactType,
+    );
+    _resource.add(dataFactory.namedNode("http://schema.org/email"), this.email);
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/faxNumber"),
+      this.faxNumber,
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/telephone"),
+      this.telephone,
+    );
+    return _resource;
+  }
+
+  override toString(): string {
+    return JSON.stringify(this.toJson());
+  }
+}
+
+export namespace ContactPoint {
+  export function propertiesFromJson(
+    _json: unknown,
+  ): purify.Either<
+    zod.ZodError,
+    {
+      contactType: purify.Maybe<string>;
+      email: purify.Maybe<string>;
+      faxNumber: purify.Maybe<string>;
+      identifier: rdfjs.NamedNode;
+      telephone: purify.Maybe<string>;
+    } & UnwrapR<ReturnType<typeof StructuredValue.propertiesFromJson>>
+  > {
+    const _jsonSafeParseResult = contactPointJsonZodSchema().safeParse(_json);
+    if (!_jsonSafeParseResult.success) {
+      return purify.Left(_jsonSafeParseResult.error);
+    }
+
+    const _jsonObject = _jsonSafeParseResult.data;
+    const _super0Either = StructuredValue.propertiesFromJson(_jsonObject);
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    const contactType = purify.Maybe.fromNullable(_jsonObject["contactType"]);
+    const email = purify.Maybe.fromNullable(_jsonObject["email"]);
+    const faxNumber = purify.Maybe.fromNullable(_jsonObject["faxNumber"]);
+    const identifier = dataFactory.namedNode(_jsonObject["@id"]);
+    const telephone = purify.Maybe.fromNullable(_jsonObject["telephone"]);
+    return purify.Either.of({
+      ..._super0,
+      contactType,
+      email,
+      faxNumber,
+      identifier,
+      telephone,
+    });
+  }
+
+  export function fromJson(
+    json: unknown,
+  ): purify.Either<zod.ZodError, ContactPoint> {
+    return ContactPoint.propertiesFromJson(json).map(
+      (properties) => new ContactPoint(properties),
+    );
+  }
+
+  export function propertiesFromRdf({
+    ignoreRdfType: _ignoreRdfType,
+    languageIn: _languageIn,
+    resource: _resource,
+    // @ts-ignore
+    ..._context
+  }: {
+    [_index: string]: any;
+    ignoreRdfType?: boolean;
+    languageIn?: readonly string[];
+    resource: rdfjsResource.Resource<rdfjs.NamedNode>;
+  }): purify.Either<
+    rdfjsResource.Resource.ValueError,
+    {
+      contactType: purify.Maybe<string>;
+      email: purify.Maybe<string>;
+      faxNumber: purify.Maybe<string>;
+      identifier: rdfjs.NamedNode;
+      telephone: purify.Maybe<string>;
+    } & UnwrapR<ReturnType<typeof StructuredValue.propertiesFromRdf>>
+  > {
+    const _super0Either = StructuredValue.propertiesFromRdf({
+      ..._context,
+      ignoreRdfType: true,
+      languageIn: _languageIn,
+      resource: _resource,
+    });
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    if (
+      !_ignoreRdfType &&
+      !_resource.isInstanceOf(
+        dataFactory.namedNode("http://schema.org/ContactPoint"),
+      )
+    ) {
+      return purify.Left(
+        new rdfjsResource.Resource.ValueError({
+          focusResource: _resource,
+          message: `${rdfjsResource.Resource.Identifier.toString(_resource.identifier)} has unexpected RDF type`,
+          predicate: dataFactory.namedNode("http://schema.org/ContactPoint"),
+        }),
+      );
+    }
+
+    const _contactTypeEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/contactType"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_contactTypeEither.isLeft()) {
+      return _contactTypeEither;
+    }
+
+    const contactType = _contactTypeEither.unsafeCoerce();
+    const _emailEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/email"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_emailEither.isLeft()) {
+      return _emailEither;
+    }
+
+    const email = _emailEither.unsafeCoerce();
+    const _faxNumberEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/faxNumber"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_faxNumberEither.isLeft()) {
+      return _faxNumberEither;
+    }
+
+    const faxNumber = _faxNumberEither.unsafeCoerce();
+    const identifier = _resource.identifier;
+    const _telephoneEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/telephone"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_telephoneEither.isLeft()) {
+      return _telephoneEither;
+    }
+
+    const telephone = _telephoneEither.unsafeCoerce();
+    return purify.Either.of({
+      ..._super0,
+      contactType,
+      email,
+      faxNumber,
+      identifier,
+      telephone,
+    });
+  }
+
+  export function fromRdf(
+    parameters: Parameters<typeof ContactPoint.propertiesFromRdf>[0],
+  ): purify.Either<rdfjsResource.Resource.ValueError, ContactPoint> {
+    return ContactPoint.propertiesFromRdf(parameters).map(
+      (properties) => new ContactPoint(properties),
+    );
+  }
+
+  export const fromRdfType: rdfjs.NamedNode<string> = dataFactory.namedNode(
+    "http://schema.org/ContactPoint",
+  );
+
+  export function jsonSchema() {
+    return zodToJsonSchema(contactPointJsonZodSchema());
+  }
+
+  export function contactPointJsonUiSchema(parameters?: {
+    scopePrefix?: string;
+  }) {
+    const scopePrefix = parameters?.scopePrefix ?? "#";
+    return {
+      elements: [
+        StructuredValue.structuredValueJsonUiSchema({ scopePrefix }),
+        { scope: `${scopePrefix}/properties/contactType`, type: "Control" },
+        { scope: `${scopePrefix}/properties/email`, type: "Control" },
+        { scope: `${scopePrefix}/properties/faxNumber`, type: "Control" },
+        { scope: `${scopePrefix}/properties/telephone`, type: "Control" },
+      ],
+      label: "ContactPoint",
+      type: "Group",
+    };
+  }
+
+  export function contactPointJsonZodSchema() {
+    return StructuredValue.structuredValueJsonZodSchema().merge(
+      zod.object({
+        contactType: zod.string().optional(),
+        email: zod.string().optional(),
+        faxNumber: zod.string().optional(),
+        "@id": zod.string().min(1),
+        telephone: zod.string().optional(),
+        type: zod.literal("ContactPoint"),
+      }),
+    );
+  }
+}
+
+export class PostalAddress extends StructuredValue {
+  readonly addressCountry: purify.Maybe<string>;
+  readonly addressLocality: purify.Maybe<string>;
+  readonly addressRegion: purify.Maybe<string>;
+  private _identifier: rdfjs.NamedNode | undefined;
+  readonly postalCode: purify.Maybe<string>;
+  readonly streetAddress: purify.Maybe<string>;
+  override readonly type = "PostalAddress";
+
+  constructor(
+    parameters: {
+      readonly addressCountry?: purify.Maybe<string> | string;
+      readonly addressLocality?: purify.Maybe<string> | string;
+      readonly addressRegion?: purify.Maybe<string> | string;
+      readonly identifier?: rdfjs.NamedNode | string;
+      readonly postalCode?: purify.Maybe<string> | string;
+      readonly streetAddress?: purify.Maybe<string> | string;
+    } & ConstructorParameters<typeof StructuredValue>[0],
+  ) {
+    super(parameters);
+    if (purify.Maybe.isMaybe(parameters.addressCountry)) {
+      this.addressCountry = parameters.addressCountry;
+    } else if (typeof parameters.addressCountry === "string") {
+      this.addressCountry = purify.Maybe.of(parameters.addressCountry);
+    } else if (typeof parameters.addressCountry === "undefined") {
+      this.addressCountry = purify.Maybe.empty();
+    } else {
+      this.addressCountry = parameters.addressCountry as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.addressLocality)) {
+      this.addressLocality = parameters.addressLocality;
+    } else if (typeof parameters.addressLocality === "string") {
+      this.addressLocality = purify.Maybe.of(parameters.addressLocality);
+    } else if (typeof parameters.addressLocality === "undefined") {
+      this.addressLocality = purify.Maybe.empty();
+    } else {
+      this.addressLocality = parameters.addressLocality as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.addressRegion)) {
+      this.addressRegion = parameters.addressRegion;
+    } else if (typeof parameters.addressRegion === "string") {
+      this.addressRegion = purify.Maybe.of(parameters.addressRegion);
+    } else if (typeof parameters.addressRegion === "undefined") {
+      this.addressRegion = purify.Maybe.empty();
+    } else {
+      this.addressRegion = parameters.addressRegion as never;
+    }
+
+    if (typeof parameters.identifier === "object") {
+      this._identifier = parameters.identifier;
+    } else if (typeof parameters.identifier === "string") {
+      this._identifier = dataFactory.namedNode(parameters.identifier);
+    } else if (typeof parameters.identifier === "undefined") {
+    } else {
+      this._identifier = parameters.identifier as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.postalCode)) {
+      this.postalCode = parameters.postalCode;
+    } else if (typeof parameters.postalCode === "string") {
+      this.postalCode = purify.Maybe.of(parameters.postalCode);
+    } else if (typeof parameters.postalCode === "undefined") {
+      this.postalCode = purify.Maybe.empty();
+    } else {
+      this.postalCode = parameters.postalCode as never;
+    }
+
+    if (purify.Maybe.isMaybe(parameters.streetAddress)) {
+      this.streetAddress = parameters.streetAddress;
+    } else if (typeof parameters.streetAddress === "string") {
+      this.streetAddress = purify.Maybe.of(parameters.streetAddress);
+    } else if (typeof parameters.streetAddress === "undefined") {
+      this.streetAddress = purify.Maybe.empty();
+    } else {
+      this.streetAddress = parameters.streetAddress as never;
+    }
+  }
+
+  override get identifier(): rdfjs.NamedNode {
+    return typeof this._identifier !== "undefined"
+      ? this._identifier
+      : dataFactory.namedNode(
+          `urn:shaclmate:object:${this.type}:${this.hash(sha256.create())}`,
+        );
+  }
+
+  override equals(other: PostalAddress): EqualsResult {
+    return super
+      .equals(other)
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.addressCountry,
+          other.addressCountry,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "addressCountry",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.addressLocality,
+          other.addressLocality,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "addressLocality",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.addressRegion,
+          other.addressRegion,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "addressRegion",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.postalCode,
+          other.postalCode,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "postalCode",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      )
+      .chain(() =>
+        ((left, right) => maybeEquals(left, right, strictEquals))(
+          this.streetAddress,
+          other.streetAddress,
+        ).mapLeft((propertyValuesUnequal) => ({
+          left: this,
+          right: other,
+          propertyName: "streetAddress",
+          propertyValuesUnequal,
+          type: "Property" as const,
+        })),
+      );
+  }
+
+  override hash<
+    HasherT extends {
+      update: (message: string | number[] | ArrayBuffer | Uint8Array) => void;
+    },
+  >(_hasher: HasherT): HasherT {
+    super.hash(_hasher);
+    this.addressCountry.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.addressLocality.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.addressRegion.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.postalCode.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    this.streetAddress.ifJust((_value0) => {
+      _hasher.update(_value0);
+    });
+    return _hasher;
+  }
+
+  override toJson(): {
+    readonly addressCountry: string | undefined;
+    readonly addressLocality: string | undefined;
+    readonly addressRegion: string | undefined;
+    readonly postalCode: string | undefined;
+    readonly streetAddress: string | undefined;
+  } & ReturnType<StructuredValue["toJson"]> {
+    return JSON.parse(
+      JSON.stringify({
+        ...super.toJson(),
+        addressCountry: this.addressCountry.map((_item) => _item).extract(),
+        addressLocality: this.addressLocality.map((_item) => _item).extract(),
+        addressRegion: this.addressRegion.map((_item) => _item).extract(),
+        postalCode: this.postalCode.map((_item) => _item).extract(),
+        streetAddress: this.streetAddress.map((_item) => _item).extract(),
+      } satisfies ReturnType<PostalAddress["toJson"]>),
+    );
+  }
+
+  override toRdf({
+    ignoreRdfType,
+    mutateGraph,
+    resourceSet,
+  }: {
+    ignoreRdfType?: boolean;
+    mutateGraph?: rdfjsResource.MutableResource.MutateGraph;
+    resourceSet: rdfjsResource.MutableResourceSet;
+  }): rdfjsResource.MutableResource<rdfjs.NamedNode> {
+    const _resource = super.toRdf({
+      ignoreRdfType: true,
+      mutateGraph,
+      resourceSet,
+    });
+    if (!ignoreRdfType) {
+      _resource.add(
+        _resource.dataFactory.namedNode(
+          "http://www.w3.org/1999/02/22-rdf-syntax-ns#type",
+        ),
+        _resource.dataFactory.namedNode("http://schema.org/PostalAddress"),
+      );
+    }
+
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/addressCountry"),
+      this.addressCountry,
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/addressLocality"),
+      this.addressLocality,
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/addressRegion"),
+      this.addressRegion,
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/postalCode"),
+      this.postalCode,
+    );
+    _resource.add(
+      dataFactory.namedNode("http://schema.org/streetAddress"),
+      this.streetAddress,
+    );
+    return _resource;
+  }
+
+  override toString(): string {
+    return JSON.stringify(this.toJson());
+  }
+}
+
+export namespace PostalAddress {
+  export function propertiesFromJson(
+    _json: unknown,
+  ): purify.Either<
+    zod.ZodError,
+    {
+      addressCountry: purify.Maybe<string>;
+      addressLocality: purify.Maybe<string>;
+      addressRegion: purify.Maybe<string>;
+      identifier: rdfjs.NamedNode;
+      postalCode: purify.Maybe<string>;
+      streetAddress: purify.Maybe<string>;
+    } & UnwrapR<ReturnType<typeof StructuredValue.propertiesFromJson>>
+  > {
+    const _jsonSafeParseResult = postalAddressJsonZodSchema().safeParse(_json);
+    if (!_jsonSafeParseResult.success) {
+      return purify.Left(_jsonSafeParseResult.error);
+    }
+
+    const _jsonObject = _jsonSafeParseResult.data;
+    const _super0Either = StructuredValue.propertiesFromJson(_jsonObject);
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    const addressCountry = purify.Maybe.fromNullable(
+      _jsonObject["addressCountry"],
+    );
+    const addressLocality = purify.Maybe.fromNullable(
+      _jsonObject["addressLocality"],
+    );
+    const addressRegion = purify.Maybe.fromNullable(
+      _jsonObject["addressRegion"],
+    );
+    const identifier = dataFactory.namedNode(_jsonObject["@id"]);
+    const postalCode = purify.Maybe.fromNullable(_jsonObject["postalCode"]);
+    const streetAddress = purify.Maybe.fromNullable(
+      _jsonObject["streetAddress"],
+    );
+    return purify.Either.of({
+      ..._super0,
+      addressCountry,
+      addressLocality,
+      addressRegion,
+      identifier,
+      postalCode,
+      streetAddress,
+    });
+  }
+
+  export function fromJson(
+    json: unknown,
+  ): purify.Either<zod.ZodError, PostalAddress> {
+    return PostalAddress.propertiesFromJson(json).map(
+      (properties) => new PostalAddress(properties),
+    );
+  }
+
+  export function propertiesFromRdf({
+    ignoreRdfType: _ignoreRdfType,
+    languageIn: _languageIn,
+    resource: _resource,
+    // @ts-ignore
+    ..._context
+  }: {
+    [_index: string]: any;
+    ignoreRdfType?: boolean;
+    languageIn?: readonly string[];
+    resource: rdfjsResource.Resource<rdfjs.NamedNode>;
+  }): purify.Either<
+    rdfjsResource.Resource.ValueError,
+    {
+      addressCountry: purify.Maybe<string>;
+      addressLocality: purify.Maybe<string>;
+      addressRegion: purify.Maybe<string>;
+      identifier: rdfjs.NamedNode;
+      postalCode: purify.Maybe<string>;
+      streetAddress: purify.Maybe<string>;
+    } & UnwrapR<ReturnType<typeof StructuredValue.propertiesFromRdf>>
+  > {
+    const _super0Either = StructuredValue.propertiesFromRdf({
+      ..._context,
+      ignoreRdfType: true,
+      languageIn: _languageIn,
+      resource: _resource,
+    });
+    if (_super0Either.isLeft()) {
+      return _super0Either;
+    }
+
+    const _super0 = _super0Either.unsafeCoerce();
+    if (
+      !_ignoreRdfType &&
+      !_resource.isInstanceOf(
+        dataFactory.namedNode("http://schema.org/PostalAddress"),
+      )
+    ) {
+      return purify.Left(
+        new rdfjsResource.Resource.ValueError({
+          focusResource: _resource,
+          message: `${rdfjsResource.Resource.Identifier.toString(_resource.identifier)} has unexpected RDF type`,
+          predicate: dataFactory.namedNode("http://schema.org/PostalAddress"),
+        }),
+      );
+    }
+
+    const _addressCountryEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/addressCountry"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_addressCountryEither.isLeft()) {
+      return _addressCountryEither;
+    }
+
+    const addressCountry = _addressCountryEither.unsafeCoerce();
+    const _addressLocalityEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/addressLocality"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_addressLocalityEither.isLeft()) {
+      return _addressLocalityEither;
+    }
+
+    const addressLocality = _addressLocalityEither.unsafeCoerce();
+    const _addressRegionEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/addressRegion"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_addressRegionEither.isLeft()) {
+      return _addressRegionEither;
+    }
+
+    const addressRegion = _addressRegionEither.unsafeCoerce();
+    const identifier = _resource.identifier;
+    const _postalCodeEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/postalCode"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_postalCodeEither.isLeft()) {
+      return _postalCodeEither;
+    }
+
+    const postalCode = _postalCodeEither.unsafeCoerce();
+    const _streetAddressEither: purify.Either<
+      rdfjsResource.Resource.ValueError,
+      purify.Maybe<string>
+    > = purify.Either.of(
+      _resource
+        .values(dataFactory.namedNode("http://schema.org/streetAddress"), {
+          unique: true,
+        })
+        .head()
+        .chain((_value) => _value.toString())
+        .toMaybe(),
+    );
+    if (_streetAddressEither.isLeft()) {
+      return _streetAddressEither;
+    }
+
+    const streetAddress = _streetAddressEither.unsafeCoerce();
+    return purify.Either.of({
+      ..._super0,
+      addressCountry,
+      addressLocality,
+      addressRegion,
+      identifier,
+      postalCode,
+      streetAddress,
+    });
+  }
+
+  export function fromRdf(
+    parameters: Parameters<typeof PostalAddress.propertiesFromRdf>[0],
+  ): purify.Either<rdfjsResource.Resource.ValueError, PostalAddress> {
+    return PostalAddress.propertiesFromRdf(parameters).map(
+      (properties) => new PostalAddress(properties),
+    );
+  }
+
+  export const fromRdfType: rdfjs.NamedNode<string> = dataFactory.namedNode(
+    "http://schema.org/PostalAddress",
+  );
+
+  export function jsonSchema() {
+    return zodToJsonSchema(postalAddressJsonZodSchema());
+  }
+
+  export function postalAddressJsonUiSchema(parameters?: {
+    scopePrefix?: string;
+  }) {
+    const scopePrefix = parameters?.scopePrefix ?? "#";
+    return {
+      elements: [
+        StructuredValue.structuredValueJsonUiSchema({ scopePrefix }),
+        { scope: `${scopePrefix}/properties/addressCountry`, type: "Control" },
+        { scope: `${scopePrefix}/properties/addressLocality`, type: "Control" },
+        { scope: `${scopePrefix}/properties/addressRegion`, type: "Control" },
+        { scope: `${scopePrefix}/properties/postalCode`, type: "Control" },
+        { scope: `${scopePrefix}/properties/streetAddress`, type: "Control" },
+      ],
+      label: "PostalAddress",
+      type: "Group",
+    };
+  }
+
+  export function postalAddressJsonZodSchema() {
+    return StructuredValue.structuredValueJsonZodSchema().merge(
+      zod.object({
+        addressCountry: zod.string().optional(),
+        addressLocality: zod.string().optional(),
+        addressRegion: zod.string().optional(),
+        "@id": zod.string().min(1),
+        postalCode: zod.string().optional(),
+        streetAddress: zod.string().optional(),
+        type: zod.literal("PostalAddress"),
+      }),
+    );
+  }
+}
+
 export abstract class CreativeWork extends Thing {
   abstract override readonly identifier: rdfjs.NamedNode;
   readonly isBasedOn: readonly rdfjs.NamedNode[];
@@ -1 +1,13 @@
 export * from "./generated.js";
+export * from "./CachingModelSet.js";
+export * from "./checkReferentialIntegrity.js";
+export * from "./committeeMemberships.js";
+export * from "./CompositeModelSet.js";
+export * from "./diffModelSets.js";
+export * from "./JsonModelSet.js";
+export * from "./ModelSet.js";
+export * from "./MutableModelSet.js";
+export * from "./MutableRdfjsDatasetModelSet.js";
+export * from "./partyAffiliations.js";
+export * from "./RdfjsDatasetModelSet.js";
+export * from "./SparqlModelSet.js";
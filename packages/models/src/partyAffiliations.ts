@@ -0,0 +1,97 @@
+import type { NamedNode } from "@rdfjs/types";
+import { Either, Maybe } from "purify-ts";
+import type { ModelSet } from "./ModelSet.js";
+import type { Organization, Person } from "./generated.js";
+import { dateInRange } from "./peopleQuery.js";
+
+/**
+ * A Person's affiliation with a party for a period, from a Role in the Person's hasOccupation that has a party.
+ */
+export interface PartyAffiliation {
+  /**
+   * The party the Person caucused with, if it's different from the party, e.g., for independents.
+   */
+  readonly caucus: Maybe<NamedNode>;
+  readonly endDate: Maybe<Date>;
+  readonly party: NamedNode;
+  readonly startDate: Maybe<Date>;
+}
+
+/**
+ * A Person's party affiliations, in order of startDate. Affiliations without a startDate sort first.
+ */
+export function partyAffiliations(person: Person): readonly PartyAffiliation[] {
+  return person.hasOccupation
+    .flatMap((occupation) =>
+      occupation.type === "Role"
+        ? occupation.party
+            .map((party) => [
+              {
+                caucus: occupation.caucus,
+                endDate: occupation.endDate,
+                party,
+                startDate: occupation.startDate,
+              },
+            ])
+            .orDefault([])
+        : [],
+    )
+    .sort(
+      (left, right) =>
+        left.startDate
+          .map((date) => date.getTime())
+          .orDefault(Number.MIN_SAFE_INTEGER) -
+        right.startDate
+          .map((date) => date.getTime())
+          .orDefault(Number.MIN_SAFE_INTEGER),
+    );
+}
+
+/**
+ * A Person's party affiliation at a date. If several affiliations include the date (e.g., on the day one term ends and the next begins), the one that started last wins. Missing affiliation dates are treated as open.
+ */
+export function partyAffiliationAt({
+  date,
+  person,
+}: {
+  date: Date;
+  person: Person;
+}): Maybe<PartyAffiliation> {
+  return Maybe.fromNullable(
+    partyAffiliations(person)
+      .filter((partyAffiliation) =>
+        dateInRange(date, {
+          end: partyAffiliation.endDate.extract(),
+          start: partyAffiliation.startDate.extract(),
+        }),
+      )
+      .at(-1),
+  );
+}
+
+/**
+ * Look up a Person's party at a date in a ModelSet.
+ *
+ * @returns Nothing if the Person or the party organization is not in the ModelSet or the Person had no party affiliation at the date
+ */
+export async function partyAt({
+  date,
+  modelSet,
+  person: personIdentifier,
+}: {
+  date: Date;
+  modelSet: ModelSet;
+  person: NamedNode;
+}): Promise<Either<Error, Maybe<Organization>>> {
+  const personEither = await modelSet.person(personIdentifier);
+  if (personEither.isLeft()) {
+    return personEither;
+  }
+  const partyAffiliation = personEither
+    .unsafeCoerce()
+    .chain((person) => partyAffiliationAt({ date, person }));
+  if (partyAffiliation.isNothing()) {
+    return Either.of(Maybe.empty());
+  }
+  return modelSet.organization(partyAffiliation.unsafeCoerce().party);
+}
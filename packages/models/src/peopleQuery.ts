@@ -0,0 +1,280 @@
+import type { NamedNode, Term } from "@rdfjs/types";
+import type { Maybe } from "purify-ts";
+import type { ModelSet } from "./ModelSet.js";
+import type { Person, Role } from "./generated.js";
+
+/**
+ * The properties of a person that a ModelSet.PeopleQuery filters and sorts on.
+ *
+ * A Person is a PeopleQueryPerson. RdfjsDatasetModelSet adapts the Resources of people to it to filter and sort them before deserializing them.
+ */
+export interface PeopleQueryPerson {
+  readonly birthDate: Maybe<Date>;
+  readonly familyName: Maybe<string>;
+  readonly gender: Maybe<Term>;
+  readonly givenName: Maybe<string>;
+  readonly hasOccupation: readonly PeopleQueryPerson.Occupation[];
+  readonly identifier: NamedNode;
+  readonly memberOf: readonly NamedNode[];
+  readonly name: Maybe<string>;
+}
+
+export namespace PeopleQueryPerson {
+  export type Occupation =
+    | { readonly name: Maybe<string>; readonly type: "Occupation" }
+    | Pick<
+        Role,
+        | "chamber"
+        | "committee"
+        | "constituency"
+        | "district"
+        | "endDate"
+        | "name"
+        | "party"
+        | "roleName"
+        | "startDate"
+        | "state"
+        | "type"
+      >;
+}
+
+/**
+ * Evaluate a ModelSet.PeopleQuery over deserialized people, for ModelSet implementations that don't have a more efficient way to do it.
+ */
+export function queryPeople(
+  people: readonly Person[],
+  query: ModelSet.PeopleQuery | undefined,
+): readonly Person[] {
+  if (!query) {
+    return people;
+  }
+
+  let result = people.filter((person) => personMatchesQuery(person, query));
+  const orderBy = query.orderBy;
+  if (orderBy) {
+    result.sort((left, right) => comparePeople(left, right, orderBy));
+  }
+  const offset = query.offset ?? 0;
+  result = result.slice(
+    offset,
+    typeof query.limit !== "undefined" ? offset + query.limit : undefined,
+  );
+  return result;
+}
+
+export type SortKey = number | string | undefined;
+
+/**
+ * Compare sort keys, with undefined keys last in either direction.
+ */
+export function compareSortKeys(
+  left: SortKey,
+  right: SortKey,
+  direction?: "ascending" | "descending",
+): number {
+  if (typeof left === "undefined") {
+    return typeof right === "undefined" ? 0 : 1;
+  }
+  if (typeof right === "undefined") {
+    return -1;
+  }
+  const comparison =
+    typeof left === "number" && typeof right === "number"
+      ? left - right
+      : left.toString().localeCompare(right.toString());
+  return direction === "descending" ? -comparison : comparison;
+}
+
+/**
+ * Compare people by the orderBy of a ModelSet.PeopleQuery.
+ */
+export function comparePeople(
+  left: PeopleQueryPerson,
+  right: PeopleQueryPerson,
+  orderBy: NonNullable<ModelSet.PeopleQuery["orderBy"]>,
+): number {
+  if (orderBy.property === "identifier") {
+    const comparison = compareIdentifiers(left.identifier, right.identifier);
+    return orderBy.direction === "descending" ? -comparison : comparison;
+  }
+  return compareSortKeys(
+    personSortKey(left, orderBy.property),
+    personSortKey(right, orderBy.property),
+    orderBy.direction,
+  );
+}
+
+/**
+ * Compare identifiers by code point, like SPARQL's ORDER BY, rather than by locale.
+ */
+export function compareIdentifiers(left: NamedNode, right: NamedNode): number {
+  if (left.value < right.value) {
+    return -1;
+  }
+  return left.value > right.value ? 1 : 0;
+}
+
+export function dateInRange(date: Date, range: ModelSet.DateRange): boolean {
+  if (range.start && date.getTime() < range.start.getTime()) {
+    return false;
+  }
+  if (range.end && date.getTime() > range.end.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Does the interval [startDate, endDate] overlap the range? Missing dates are treated as open.
+ */
+export function dateRangesOverlap(
+  { endDate, startDate }: { endDate?: Date; startDate?: Date },
+  range: ModelSet.DateRange,
+): boolean {
+  if (range.end && startDate && startDate.getTime() > range.end.getTime()) {
+    return false;
+  }
+  if (range.start && endDate && endDate.getTime() < range.start.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Does the value equal the expected value? Anything matches an undefined expected value.
+ */
+function maybeMatches<T extends NamedNode | number | string>(
+  actual: Maybe<T>,
+  expected: T | undefined,
+): boolean {
+  if (typeof expected === "undefined") {
+    return true;
+  }
+  return actual
+    .map((value) =>
+      typeof value === "object"
+        ? value.equals(expected as NamedNode)
+        : value === expected,
+    )
+    .orDefault(false);
+}
+
+/**
+ * Does the person match all of the filters of a ModelSet.PeopleQuery?
+ */
+export function personMatchesQuery(
+  person: PeopleQueryPerson,
+  query: ModelSet.PeopleQuery,
+): boolean {
+  if (query.birthDate) {
+    const birthDateRange = query.birthDate;
+    if (
+      !person.birthDate
+        .map((birthDate) => dateInRange(birthDate, birthDateRange))
+        .orDefault(false)
+    ) {
+      return false;
+    }
+  }
+
+  if (query.gender) {
+    const gender = query.gender;
+    if (!person.gender.map((term) => term.equals(gender)).orDefault(false)) {
+      return false;
+    }
+  }
+
+  if (query.hasOccupation) {
+    const {
+      chamber,
+      committee,
+      constituency,
+      date: dateRange,
+      district,
+      name,
+      party,
+      roleName,
+      state,
+    } = query.hasOccupation;
+    if (
+      !person.hasOccupation.some((occupation) => {
+        if (!maybeMatches(occupation.name, name)) {
+          return false;
+        }
+        if (occupation.type !== "Role") {
+          return [
+            chamber,
+            committee,
+            constituency,
+            district,
+            party,
+            roleName,
+            state,
+          ].every((value) => typeof value === "undefined");
+        }
+        if (
+          !maybeMatches(occupation.chamber, chamber) ||
+          !maybeMatches(occupation.committee, committee) ||
+          !maybeMatches(occupation.constituency, constituency) ||
+          !maybeMatches(occupation.district, district) ||
+          !maybeMatches(occupation.party, party) ||
+          !maybeMatches(occupation.roleName, roleName) ||
+          !maybeMatches(occupation.state, state)
+        ) {
+          return false;
+        }
+        return (
+          !dateRange ||
+          dateRangesOverlap(
+            {
+              endDate: occupation.endDate.extract(),
+              startDate: occupation.startDate.extract(),
+            },
+            dateRange,
+          )
+        );
+      })
+    ) {
+      return false;
+    }
+  }
+
+  if (query.memberOf) {
+    const memberOf = query.memberOf;
+    if (!person.memberOf.some((term) => term.equals(memberOf))) {
+      return false;
+    }
+  }
+
+  if (query.name) {
+    const name = query.name.toLowerCase();
+    if (
+      ![person.name, person.givenName, person.familyName].some((string) =>
+        string
+          .map((string) => string.toLowerCase().includes(name))
+          .orDefault(false),
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function personSortKey(
+  person: PeopleQueryPerson,
+  property: Exclude<
+    NonNullable<ModelSet.PeopleQuery["orderBy"]>["property"],
+    "identifier"
+  >,
+): SortKey {
+  switch (property) {
+    case "birthDate":
+      return person.birthDate.map((birthDate) => birthDate.getTime()).extract();
+    case "familyName":
+      return person.familyName.extract();
+    case "name":
+      return person.name.extract();
+  }
+}
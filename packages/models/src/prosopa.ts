@@ -0,0 +1,25 @@
+import { DataFactory as dataFactory } from "n3";
+
+/**
+ * prosopa ontology terms used outside the generated code.
+ */
+export const prosopa = {
+  chamber: dataFactory.namedNode(
+    "http://purl.archive.org/purl/prosopa/ontology#chamber",
+  ),
+  committee: dataFactory.namedNode(
+    "http://purl.archive.org/purl/prosopa/ontology#committee",
+  ),
+  constituency: dataFactory.namedNode(
+    "http://purl.archive.org/purl/prosopa/ontology#constituency",
+  ),
+  district: dataFactory.namedNode(
+    "http://purl.archive.org/purl/prosopa/ontology#district",
+  ),
+  party: dataFactory.namedNode(
+    "http://purl.archive.org/purl/prosopa/ontology#party",
+  ),
+  state: dataFactory.namedNode(
+    "http://purl.archive.org/purl/prosopa/ontology#state",
+  ),
+};
@@ -0,0 +1,29 @@
+import { DataFactory as dataFactory } from "n3";
+
+/**
+ * schema.org terms used outside the generated code.
+ */
+export const schema = {
+  address: dataFactory.namedNode("http://schema.org/address"),
+  birthDate: dataFactory.namedNode("http://schema.org/birthDate"),
+  contactPoint: dataFactory.namedNode("http://schema.org/contactPoint"),
+  containedInPlace: dataFactory.namedNode("http://schema.org/containedInPlace"),
+  containsPlace: dataFactory.namedNode("http://schema.org/containsPlace"),
+  endDate: dataFactory.namedNode("http://schema.org/endDate"),
+  familyName: dataFactory.namedNode("http://schema.org/familyName"),
+  gender: dataFactory.namedNode("http://schema.org/gender"),
+  givenName: dataFactory.namedNode("http://schema.org/givenName"),
+  hasOccupation: dataFactory.namedNode("http://schema.org/hasOccupation"),
+  height: dataFactory.namedNode("http://schema.org/height"),
+  image: dataFactory.namedNode("http://schema.org/image"),
+  member: dataFactory.namedNode("http://schema.org/member"),
+  memberOf: dataFactory.namedNode("http://schema.org/memberOf"),
+  name: dataFactory.namedNode("http://schema.org/name"),
+  parentOrganization: dataFactory.namedNode(
+    "http://schema.org/parentOrganization",
+  ),
+  roleName: dataFactory.namedNode("http://schema.org/roleName"),
+  startDate: dataFactory.namedNode("http://schema.org/startDate"),
+  subOrganization: dataFactory.namedNode("http://schema.org/subOrganization"),
+  width: dataFactory.namedNode("http://schema.org/width"),
+};
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import type { DatasetCore, NamedNode, Term } from "@rdfjs/types";
+import N3 from "n3";
+import { Either, Left, Maybe } from "purify-ts";
+import SHACLValidator from "rdf-validate-shacl";
+
+const dataFactory = N3.DataFactory;
+
+const owlClass = dataFactory.namedNode("http://www.w3.org/2002/07/owl#Class");
+const rdfsClass = dataFactory.namedNode(
+  "http://www.w3.org/2000/01/rdf-schema#Class",
+);
+const rdfsSubClassOf = dataFactory.namedNode(
+  "http://www.w3.org/2000/01/rdf-schema#subClassOf",
+);
+
+/**
+ * A simplified SHACL validation report that doesn't depend on the validation engine.
+ */
+export interface ShaclValidationReport {
+  readonly conforms: boolean;
+  readonly results: readonly ShaclValidationReport.Result[];
+}
+
+export namespace ShaclValidationReport {
+  export interface Result {
+    readonly focusNode: Term;
+    readonly messages: readonly string[];
+    readonly path: Maybe<Term>;
+    readonly severity: NamedNode;
+    readonly sourceConstraintComponent: NamedNode;
+    readonly sourceShape: Maybe<Term>;
+    readonly value: Maybe<Term>;
+  }
+
+  /**
+   * Format a report as human-readable text, one line per result.
+   */
+  export function format(report: ShaclValidationReport): string {
+    if (report.conforms) {
+      return "conforms";
+    }
+    return report.results
+      .map((result) =>
+        [
+          `${localName(result.severity)}: ${termToString(result.focusNode)}`,
+          result.path.map((path) => ` ${termToString(path)}`).orDefault(""),
+          `: ${result.messages.length > 0 ? result.messages.join("; ") : localName(result.sourceConstraintComponent)}`,
+          result.value
+            .map((value) => ` (value: ${termToString(value)})`)
+            .orDefault(""),
+          result.sourceShape
+            .map((sourceShape) => ` [shape: ${termToString(sourceShape)}]`)
+            .orDefault(""),
+        ].join(""),
+      )
+      .join("\n");
+  }
+}
+
+/**
+ * Validate a dataset against the SHACL shapes in models.shaclmate.ttl or other shapes.
+ *
+ * Node-only, so it's exported from @sdapps/models/validateShacl rather than the package index.
+ *
+ * The shapes declare their target classes as owl:Classes with rdfs:subClassOf hierarchies. The shapes graph is augmented with owl:Class rdfs:subClassOf rdfs:Class so the engine treats them as implicit class targets, and the data is validated together with the shapes' rdfs:subClassOf statements so that, for example, Thing's constraints apply to instances of Person.
+ *
+ * @param shapes shapes graph, defaults to models.shaclmate.ttl
+ */
+export async function validateShacl({
+  dataset,
+  shapes,
+}: {
+  dataset: DatasetCore;
+  shapes?: DatasetCore;
+}): Promise<Either<Error, ShaclValidationReport>> {
+  try {
+    const shapesDataset = new N3.Store([...(shapes ?? (await modelsShapes()))]);
+    shapesDataset.add(dataFactory.quad(owlClass, rdfsSubClassOf, rdfsClass));
+
+    const dataDataset = new N3.Store([...dataset]);
+    for (const quad of shapesDataset.match(null, rdfsSubClassOf, null)) {
+      dataDataset.add(quad);
+    }
+
+    const report = await new SHACLValidator(shapesDataset).validate(
+      dataDataset,
+    );
+    return Either.of({
+      conforms: report.conforms,
+      results: report.results.map((result) => ({
+        focusNode: result.focusNode,
+        messages: result.message.map((message) => message.value),
+        path: Maybe.fromNullable(result.path),
+        severity: result.severity as NamedNode,
+        sourceConstraintComponent:
+          result.sourceConstraintComponent as NamedNode,
+        sourceShape: Maybe.fromNullable(result.sourceShape),
+        value: Maybe.fromNullable(result.value),
+      })),
+    });
+  } catch (e) {
+    return Left(e instanceof Error ? e : new Error(String(e)));
+  }
+}
+
+function localName(iri: NamedNode): string {
+  return iri.value.substring(
+    Math.max(iri.value.lastIndexOf("#"), iri.value.lastIndexOf("/")) + 1,
+  );
+}
+
+/**
+ * Parse models.shaclmate.ttl, which is next to src/ and dist/.
+ */
+async function modelsShapes(): Promise<DatasetCore> {
+  return new N3.Store(
+    new N3.Parser().parse(
+      await fs.promises.readFile(
+        new URL("../models.shaclmate.ttl", import.meta.url),
+        "utf8",
+      ),
+    ),
+  );
+}
+
+function termToString(term: Term): string {
+  switch (term.termType) {
+    case "BlankNode":
+      return `_:${term.value}`;
+    case "Literal":
+      return JSON.stringify(term.value);
+    case "NamedNode":
+      return `<${term.value}>`;
+    default:
+      return term.value;
+  }
+}